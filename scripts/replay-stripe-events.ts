@@ -0,0 +1,66 @@
+/**
+ * Run stored Stripe events through the webhook handlers again, oldest first.
+ *
+ *   deno run --allow-env --allow-net scripts/replay-stripe-events.ts [options] [event ids...]
+ *
+ * With no ids, replays every event that was received but never settled
+ * (failed, or interrupted mid-delivery). Handlers are idempotent and skip
+ * state older than what's stored, so replaying settled events is safe too.
+ *
+ *   --all           include events that were already processed or skipped
+ *   --since <date>  only events Stripe created at or after this ISO date
+ *   --dry-run       list the events without processing them
+ *
+ * Needs SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY and STRIPE_SECRET_KEY.
+ */
+import { parse } from "https://deno.land/std@0.168.0/flags/mod.ts";
+import Stripe from "https://esm.sh/stripe@14.21.0";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { processEvent } from "../supabase/functions/stripe-webhook/handlers.ts";
+import { claimEvent, loadEvents, markEvent } from "../supabase/functions/stripe-webhook/ledger.ts";
+
+const args = parse(Deno.args, { boolean: ["all", "dry-run"], string: ["since"] });
+
+const missing = ["SUPABASE_URL", "SUPABASE_SERVICE_ROLE_KEY", "STRIPE_SECRET_KEY"].filter((name) => !Deno.env.get(name));
+if (missing.length > 0) {
+  console.error(`Missing required environment variables: ${missing.join(", ")}`);
+  Deno.exit(1);
+}
+
+const client = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+const stripe = new Stripe(Deno.env.get("STRIPE_SECRET_KEY")!, { apiVersion: "2023-10-16" });
+
+const ids = args._.map(String);
+// Naming events replays them whatever their status
+const unsettledOnly = !args.all && ids.length === 0;
+const events = await loadEvents(client, { ids, since: args.since, unsettledOnly });
+console.log(`${events.length} event(s) to replay`);
+
+let failed = 0;
+for (const event of events) {
+  const label = `${event.id} ${event.type} (${event.status}, ${event.attempts} attempt(s))`;
+  if (args["dry-run"]) {
+    console.log(label);
+    continue;
+  }
+
+  // The webhook may be handling the same event right now
+  const claimed = await claimEvent(client, event, { includeSettled: !unsettledOnly });
+  if (!claimed) {
+    console.log(`${label} -> being processed elsewhere, left alone`);
+    continue;
+  }
+
+  try {
+    const outcome = await processEvent(stripe, client, claimed.payload);
+    await markEvent(client, claimed, outcome);
+    console.log(`${label} -> ${outcome.status}${outcome.note ? `: ${outcome.note}` : ""}`);
+  } catch (error) {
+    failed++;
+    const message = error instanceof Error ? error.message : String(error);
+    await markEvent(client, claimed, { status: "failed", error: message });
+    console.error(`${label} -> failed: ${message}`);
+  }
+}
+
+Deno.exit(failed > 0 ? 1 : 0);
@@ -7,6 +7,8 @@ import { ErrorBoundary } from "react-error-boundary";
 import { ErrorFallback } from "@/components/ErrorFallback";
 import Index from "./pages/Index";
 import Billing from "./pages/Billing";
+import Library from "./pages/Library";
+import SharedVideo from "./pages/SharedVideo";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -28,6 +30,8 @@ const App = () => (
           <Routes>
             <Route path="/" element={<Index />} />
             <Route path="/billing" element={<Billing />} />
+            <Route path="/library" element={<Library />} />
+            <Route path="/v/:shareId" element={<SharedVideo />} />
             <Route path="*" element={<NotFound />} />
           </Routes>
         </BrowserRouter>
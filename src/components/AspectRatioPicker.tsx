@@ -0,0 +1,80 @@
+import { Button } from '@/components/ui/button';
+import { Platform } from '@/lib/constants';
+import type { AspectRatio, UploadState } from '@/types/veosync';
+
+interface AspectRatioPickerProps {
+  platform: AspectRatio;
+  exportPlatforms: AspectRatio[];
+  onChange: (updates: Partial<UploadState>) => void;
+}
+
+const FORMATS: { id: AspectRatio; label: string; hint: string }[] = [
+  { id: Platform.PORTRAIT, label: '9:16', hint: 'Reels, TikTok, Shorts' },
+  { id: Platform.FEED, label: '4:5', hint: 'Feed posts' },
+  { id: Platform.SQUARE, label: '1:1', hint: 'Square' },
+  { id: Platform.LANDSCAPE, label: '16:9', hint: 'YouTube' },
+];
+
+// Proportional frame icon, sized to fit a 20px box
+function FrameIcon({ ratio }: { ratio: AspectRatio }) {
+  const [w, h] = ratio.split(':').map(Number);
+  const scale = 20 / Math.max(w, h);
+  return (
+    <span
+      className="inline-block rounded-sm border-2 border-current"
+      style={{ width: w * scale, height: h * scale }}
+    />
+  );
+}
+
+export function AspectRatioPicker({ platform, exportPlatforms, onChange }: AspectRatioPickerProps) {
+  const selectPrimary = (ratio: AspectRatio) => {
+    onChange({ platform: ratio, exportPlatforms: exportPlatforms.filter((r) => r !== ratio) });
+  };
+
+  const toggleExport = (ratio: AspectRatio) => {
+    onChange({
+      exportPlatforms: exportPlatforms.includes(ratio)
+        ? exportPlatforms.filter((r) => r !== ratio)
+        : [...exportPlatforms, ratio],
+    });
+  };
+
+  return (
+    <div className="gradient-border relative overflow-hidden rounded-2xl bg-muted/30 p-6">
+      <h3 className="mb-1 font-display text-xl tracking-wider">FORMAT</h3>
+      <p className="mb-3 text-sm text-muted-foreground">
+        {FORMATS.find((f) => f.id === platform)?.hint}
+      </p>
+      <div className="mb-4 grid grid-cols-4 gap-2">
+        {FORMATS.map(({ id, label }) => (
+          <Button
+            key={id}
+            variant="chip"
+            size="sm"
+            className={`h-auto flex-col gap-1 py-2 ${platform === id ? 'border-primary text-primary' : ''}`}
+            onClick={() => selectPrimary(id)}
+          >
+            <FrameIcon ratio={id} />
+            {label}
+          </Button>
+        ))}
+      </div>
+
+      <p className="mb-2 text-sm text-muted-foreground">Also export as</p>
+      <div className="flex flex-wrap gap-2">
+        {FORMATS.filter(({ id }) => id !== platform).map(({ id, label }) => (
+          <Button
+            key={id}
+            variant="chip"
+            size="sm"
+            className={exportPlatforms.includes(id) ? 'border-primary text-primary' : ''}
+            onClick={() => toggleExport(id)}
+          >
+            {label}
+          </Button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,258 @@
+import { useEffect, useRef, useState } from 'react';
+import { Pause, Play } from 'lucide-react';
+import { AUDIO_EXCERPT } from '@/lib/constants';
+import { detectBeats } from '@/lib/beats';
+import type { UploadState } from '@/types/veosync';
+
+interface AudioTrimmerProps {
+  file: File;
+  start: number;
+  end: number | null;
+  // Longest excerpt the user's plan renders
+  maxSec?: number;
+  onChange: (updates: Partial<UploadState>) => void;
+}
+
+type DragMode = 'move' | 'start' | 'end';
+
+const BAR_COUNT = 90;
+
+// Peak amplitude per bar, normalised to 0..1
+function computePeaks(buffer: AudioBuffer): number[] {
+  const data = buffer.getChannelData(0);
+  const bucketSize = Math.max(1, Math.floor(data.length / BAR_COUNT));
+  const peaks: number[] = [];
+  for (let bar = 0; bar < BAR_COUNT; bar++) {
+    let peak = 0;
+    const from = bar * bucketSize;
+    // Sampling every 16th value is plenty for a thumbnail waveform
+    for (let i = from; i < Math.min(from + bucketSize, data.length); i += 16) {
+      peak = Math.max(peak, Math.abs(data[i]));
+    }
+    peaks.push(peak);
+  }
+  const max = Math.max(...peaks, 0.01);
+  return peaks.map((peak) => peak / max);
+}
+
+const formatTime = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(Math.floor(seconds % 60)).padStart(2, '0')}`;
+
+export function AudioTrimmer({ file, start, end, maxSec = AUDIO_EXCERPT.MAX_SEC, onChange }: AudioTrimmerProps) {
+  const trackRef = useRef<HTMLDivElement>(null);
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const dragRef = useRef<{ mode: DragMode; originX: number; originStart: number; originEnd: number } | null>(null);
+  const [peaks, setPeaks] = useState<number[] | null>(null);
+  const [duration, setDuration] = useState<number | null>(null);
+  const [failed, setFailed] = useState(false);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+
+  useEffect(() => {
+    const url = URL.createObjectURL(file);
+    setPreviewUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [file]);
+
+  // The effects below report through the latest callback (a new function each render) and window
+  const latestRef = useRef({ onChange, end, maxSec });
+  useEffect(() => {
+    latestRef.current = { onChange, end, maxSec };
+  });
+
+  // Decode once per file and open a default window at the start of the track
+  useEffect(() => {
+    let cancelled = false;
+    const context = new AudioContext();
+    setPeaks(null);
+    setFailed(false);
+
+    file.arrayBuffer()
+      .then((data) => context.decodeAudioData(data))
+      .then((buffer) => {
+        if (cancelled) return;
+        const latest = latestRef.current;
+        setPeaks(computePeaks(buffer));
+        setDuration(buffer.duration);
+        latest.onChange({ beatGrid: detectBeats(buffer) });
+        if (buffer.duration <= AUDIO_EXCERPT.MIN_SEC) {
+          latest.onChange({ audioStart: 0, audioEnd: null, audioDuration: buffer.duration });
+        } else if (latest.end === null || latest.end > buffer.duration) {
+          latest.onChange({
+            audioStart: 0,
+            audioEnd: Math.min(buffer.duration, AUDIO_EXCERPT.DEFAULT_SEC, latest.maxSec),
+            audioDuration: buffer.duration,
+          });
+        }
+      })
+      .catch(() => {
+        // Undecodable in this browser: fall back to the whole track
+        if (!cancelled) {
+          setFailed(true);
+          latestRef.current.onChange({ audioStart: 0, audioEnd: null, audioDuration: null });
+        }
+      })
+      .finally(() => context.close());
+
+    return () => {
+      cancelled = true;
+    };
+  }, [file]);
+
+  // Trim a selection the plan no longer covers, e.g. once the profile loads.
+  // Dragging already keeps within maxSec, so other re-runs find nothing to trim
+  useEffect(() => {
+    if (end !== null && end - start > maxSec) {
+      latestRef.current.onChange({ audioEnd: start + Math.max(maxSec, AUDIO_EXCERPT.MIN_SEC) });
+    }
+  }, [start, end, maxSec]);
+
+  // Stop the preview at the end of the selection
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio || end === null) return;
+    const handleTimeUpdate = () => {
+      if (audio.currentTime >= end) {
+        audio.pause();
+        setIsPlaying(false);
+      }
+    };
+    audio.addEventListener('timeupdate', handleTimeUpdate);
+    return () => audio.removeEventListener('timeupdate', handleTimeUpdate);
+  }, [end]);
+
+  if (failed) {
+    return (
+      <p className="mt-4 text-sm text-muted-foreground">
+        Couldn't read this file's waveform, so we'll use the whole track.
+      </p>
+    );
+  }
+
+  if (!peaks || duration === null) {
+    return <div className="mt-4 h-16 animate-pulse rounded-xl bg-muted/50" />;
+  }
+
+  if (end === null) {
+    return (
+      <p className="mt-4 text-sm text-muted-foreground">
+        Using the whole track ({formatTime(duration)}).
+      </p>
+    );
+  }
+
+  const secondsPerPixel = () => duration / (trackRef.current?.clientWidth || 1);
+
+  const handlePointerDown = (mode: DragMode) => (e: React.PointerEvent) => {
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { mode, originX: e.clientX, originStart: start, originEnd: end };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const delta = (e.clientX - drag.originX) * secondsPerPixel();
+    const maxLength = Math.min(maxSec, duration);
+
+    let nextStart = drag.originStart;
+    let nextEnd = drag.originEnd;
+    if (drag.mode === 'move') {
+      const length = drag.originEnd - drag.originStart;
+      nextStart = Math.min(Math.max(0, drag.originStart + delta), duration - length);
+      nextEnd = nextStart + length;
+    } else if (drag.mode === 'start') {
+      nextStart = Math.min(
+        Math.max(0, drag.originStart + delta, drag.originEnd - maxLength),
+        drag.originEnd - AUDIO_EXCERPT.MIN_SEC
+      );
+    } else {
+      nextEnd = Math.max(
+        Math.min(duration, drag.originEnd + delta, drag.originStart + maxLength),
+        drag.originStart + AUDIO_EXCERPT.MIN_SEC
+      );
+    }
+
+    const round = (seconds: number) => Math.round(seconds * 10) / 10;
+    onChange({ audioStart: round(nextStart), audioEnd: round(nextEnd), audioDuration: duration });
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const togglePreview = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (isPlaying) {
+      audio.pause();
+      setIsPlaying(false);
+    } else {
+      audio.currentTime = start;
+      audio.play();
+      setIsPlaying(true);
+    }
+  };
+
+  const left = (start / duration) * 100;
+  const width = ((end - start) / duration) * 100;
+
+  return (
+    <div className="mt-4" onClick={(e) => e.stopPropagation()}>
+      {previewUrl && <audio ref={audioRef} src={previewUrl} onPause={() => setIsPlaying(false)} />}
+
+      <div
+        ref={trackRef}
+        className="relative h-16 touch-none select-none"
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      >
+        <div className="absolute inset-0 flex items-center gap-px">
+          {peaks.map((peak, index) => {
+            const barTime = ((index + 0.5) / BAR_COUNT) * duration;
+            const selected = barTime >= start && barTime <= end;
+            return (
+              <div
+                key={index}
+                className={`flex-1 rounded-full ${selected ? 'bg-primary' : 'bg-muted-foreground/30'}`}
+                style={{ height: `${Math.max(8, peak * 100)}%` }}
+              />
+            );
+          })}
+        </div>
+
+        <div
+          className="absolute inset-y-0 cursor-grab rounded-lg border-2 border-primary bg-primary/10 active:cursor-grabbing"
+          style={{ left: `${left}%`, width: `${width}%` }}
+          onPointerDown={handlePointerDown('move')}
+        >
+          <div
+            className="absolute inset-y-0 -left-1.5 w-3 cursor-ew-resize rounded-full bg-primary"
+            onPointerDown={handlePointerDown('start')}
+            aria-label="Selection start"
+          />
+          <div
+            className="absolute inset-y-0 -right-1.5 w-3 cursor-ew-resize rounded-full bg-primary"
+            onPointerDown={handlePointerDown('end')}
+            aria-label="Selection end"
+          />
+        </div>
+      </div>
+
+      <div className="mt-2 flex items-center justify-between text-sm text-muted-foreground">
+        <button
+          onClick={togglePreview}
+          className="flex items-center gap-1 hover:text-foreground"
+        >
+          {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+          Preview
+        </button>
+        <span>
+          {formatTime(start)} – {formatTime(end)} · {Math.round(end - start)}s
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,31 @@
+import type { ReactNode } from 'react';
+import { AlertTriangle, Clock } from 'lucide-react';
+import type { BillingNotice } from '@/lib/billing';
+
+interface BillingBannerProps {
+  notice: BillingNotice;
+  // Where the user fixes it: a link in the header, the portal on the billing page
+  action: ReactNode;
+  className?: string;
+}
+
+export function BillingBanner({ notice, action, className = '' }: BillingBannerProps) {
+  const urgent = notice.kind !== 'trial_ending';
+  const Icon = urgent ? AlertTriangle : Clock;
+
+  return (
+    <div
+      role={urgent ? 'alert' : 'status'}
+      className={`flex items-center gap-3 rounded-xl border px-4 py-3 text-sm ${
+        urgent ? 'border-destructive/50 bg-destructive/10' : 'border-primary/40 bg-primary/10'
+      } ${className}`}
+    >
+      <Icon className={`h-5 w-5 shrink-0 ${urgent ? 'text-destructive' : 'text-primary'}`} />
+      <div className="flex-1">
+        <p className="font-medium text-foreground">{notice.title}</p>
+        <p className="text-muted-foreground">{notice.message}</p>
+      </div>
+      {action}
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+import { useRef } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Timer } from 'lucide-react';
+import { retimeCue } from '@/lib/captions';
+import type { CaptionCue, CaptionSource, CaptionTrack } from '@/types/veosync';
+
+interface CaptionTimingEditorProps {
+  captions: CaptionTrack;
+  audioUrl: string;
+  onUpdateCaptions: (captions: CaptionTrack) => void;
+}
+
+const SOURCE_HINTS: Record<CaptionSource, string> = {
+  aligned: 'Synced to your track automatically. Nudge anything that looks off.',
+  estimated: "We couldn't sync your lyrics automatically. Play the track and tap each line as it starts.",
+  manual: 'Using your timing.',
+};
+
+// Shortest cue a tap can produce when there is no following line to run up to
+const MIN_TAPPED_CUE_SEC = 0.5;
+
+export function CaptionTimingEditor({ captions, audioUrl, onUpdateCaptions }: CaptionTimingEditorProps) {
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const { cues } = captions;
+
+  const updateCues = (next: CaptionCue[]) => {
+    onUpdateCaptions({ source: 'manual', cues: next });
+  };
+
+  const setBounds = (index: number, start: number, end: number) => {
+    if (!Number.isFinite(start) || !Number.isFinite(end)) return;
+    updateCues(cues.map((cue, i) => (i === index ? retimeCue(cue, start, end) : cue)));
+  };
+
+  // Start the line at the current playback position and close off the previous one
+  const tapLine = (index: number) => {
+    const now = audioRef.current?.currentTime ?? 0;
+    const cue = cues[index];
+    const next = cues[index + 1];
+    const end = next && next.start > now + MIN_TAPPED_CUE_SEC
+      ? next.start
+      : now + Math.max(MIN_TAPPED_CUE_SEC, cue.end - cue.start);
+
+    updateCues(cues.map((c, i) => {
+      if (i === index) return retimeCue(c, now, end);
+      if (i === index - 1 && c.end > now && now > c.start) return retimeCue(c, c.start, now);
+      return c;
+    }));
+  };
+
+  return (
+    <div className="gradient-border relative mb-6 overflow-hidden rounded-2xl bg-muted/30 p-4">
+      <h3 className="mb-1 font-display text-xl tracking-wider">LYRIC TIMING</h3>
+      <p className="mb-3 text-sm text-muted-foreground">{SOURCE_HINTS[captions.source]}</p>
+
+      <audio ref={audioRef} src={audioUrl} controls className="mb-4 w-full" />
+
+      <div className="max-h-80 space-y-2 overflow-y-auto pr-1">
+        {cues.map((cue, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <Button
+              variant="chip"
+              size="sm"
+              onClick={() => tapLine(index)}
+              aria-label={`Start line ${index + 1} now`}
+            >
+              <Timer className="h-4 w-4" />
+            </Button>
+            <span className="min-w-0 flex-1 truncate text-sm text-foreground" title={cue.text}>
+              {cue.text}
+            </span>
+            <Input
+              type="number"
+              step={0.1}
+              min={0}
+              value={cue.start}
+              onChange={(e) => setBounds(index, e.target.valueAsNumber, cue.end)}
+              className="h-8 w-20 bg-muted/50 text-xs"
+              aria-label={`Line ${index + 1} start`}
+            />
+            <Input
+              type="number"
+              step={0.1}
+              min={0}
+              value={cue.end}
+              onChange={(e) => setBounds(index, cue.start, e.target.valueAsNumber)}
+              className="h-8 w-20 bg-muted/50 text-xs"
+              aria-label={`Line ${index + 1} end`}
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
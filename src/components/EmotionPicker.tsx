@@ -6,12 +6,23 @@ interface EmotionPickerProps {
   selectedEmotion: Emotion | null;
   onSelect: (emotion: Emotion) => void;
   onContinue: () => void;
+  // Shown when picking the emotion for a new version of a finished video
+  onBack?: () => void;
 }
 
-export function EmotionPicker({ selectedEmotion, onSelect, onContinue }: EmotionPickerProps) {
+export function EmotionPicker({ selectedEmotion, onSelect, onContinue, onBack }: EmotionPickerProps) {
   return (
     <div className="flex min-h-screen flex-col items-center justify-center px-4 py-8">
       <div className="w-full max-w-lg animate-fade-in">
+        {onBack && (
+          <button
+            onClick={onBack}
+            className="mb-6 font-body text-sm text-muted-foreground hover:text-foreground"
+          >
+            ← Back
+          </button>
+        )}
+
         <h1 className="mb-2 text-center font-display text-5xl tracking-wider text-foreground md:text-6xl">
           HOW DO YOU FEEL?
         </h1>
@@ -1,18 +1,23 @@
-import { useState, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
-import { Loader2, Sparkles } from 'lucide-react';
-import type { JobStatus } from '@/types/veosync';
+import { AlertTriangle, Check, Loader2, Sparkles, X } from 'lucide-react';
+import type { AssemblyPhase, AssemblyProgress, JobProgress, JobStatus, JobStepStatus, ProgressStage } from '@/types/veosync';
 
 interface GenerateScreenProps {
   status: JobStatus;
   onGenerate: () => void;
   onBack: () => void;
-  assemblyProgress?: number;
+  progress?: JobProgress;
+  assemblyProgress?: AssemblyProgress;
+  // The user stopped this tab's assembly; it can be resumed
+  assemblyCancelled?: boolean;
+  onCancelAssembly?: () => void;
+  onResumeAssembly?: () => void;
 }
 
 const STATUS_MESSAGES: Record<JobStatus, string> = {
   queued: 'Preparing your vision...',
+  storyboard_ready: 'Locking in your storyboard...',
   running: 'Creating your masterpiece...',
   ready_for_assembly: 'Assembling final video...',
   assembling: 'Putting it all together...',
@@ -22,6 +27,7 @@ const STATUS_MESSAGES: Record<JobStatus, string> = {
 
 const STATUS_DETAILS: Record<JobStatus, string> = {
   queued: 'Setting up the creative pipeline',
+  storyboard_ready: 'Sending your scenes to the director',
   running: 'Generating visuals and syncing audio',
   ready_for_assembly: 'Combining all elements',
   assembling: 'Final rendering in progress',
@@ -29,26 +35,68 @@ const STATUS_DETAILS: Record<JobStatus, string> = {
   error: 'Please try again',
 };
 
-export function GenerateScreen({ status, onGenerate, onBack, assemblyProgress }: GenerateScreenProps) {
-  const [pulse, setPulse] = useState(0);
-  const isProcessing = status !== 'queued' && status !== 'done' && status !== 'error';
-  const isReady = status === 'done';
-
-  useEffect(() => {
-    if (!isProcessing) return;
-    
-    const interval = setInterval(() => {
-      setPulse((p) => (p + 1) % 100);
-    }, 50);
-    
-    return () => clearInterval(interval);
-  }, [isProcessing]);
+const STAGE_DETAILS: Record<ProgressStage, string> = {
+  lipsync: 'Syncing your performance to the track',
+  broll: 'Rendering your b-roll scenes',
+  manifest: 'Lining up the final cut',
+  ready: 'Combining all elements',
+};
+
+const SCENE_STATUS_LABELS: Record<JobStepStatus, string> = {
+  pending: 'Queued',
+  running: 'Rendering',
+  done: 'Done',
+  error: 'Fallback',
+};
+
+// Share of the bar given to clip rendering; browser assembly fills the rest
+const RENDER_SHARE = 60;
+const RENDER_OFFSET = 10;
+
+// Where each assembly phase starts and how much of the assembly share it takes
+const ASSEMBLY_PHASE_SHARE: Record<AssemblyPhase, { offset: number; share: number }> = {
+  download: { offset: 0, share: 0.2 },
+  encode: { offset: 0.2, share: 0.7 },
+  upload: { offset: 0.9, share: 0.1 },
+};
+
+function assemblyDetail({ phase, render }: AssemblyProgress): string {
+  if (phase === 'download') return 'Downloading your clips';
+  if (phase === 'upload') return 'Uploading your video';
+  if (render && render.total > 1) return `Rendering ${render.aspect_ratio} · ${render.index + 1} of ${render.total}`;
+  return 'Rendering your video';
+}
+
+function formatEta(seconds: number): string {
+  if (seconds < 60) return `About ${seconds}s left`;
+  return `About ${Math.ceil(seconds / 60)} min left`;
+}
+
+export function GenerateScreen({
+  status,
+  onGenerate,
+  onBack,
+  progress,
+  assemblyProgress,
+  assemblyCancelled,
+  onCancelAssembly,
+  onResumeAssembly,
+}: GenerateScreenProps) {
+  const isProcessing = status !== 'queued' && status !== 'done' && status !== 'error' && !assemblyCancelled;
+  const isRendering = status === 'running' && !!progress;
 
   const getProgress = () => {
     if (status === 'queued') return 0;
-    if (status === 'running') return 30 + (pulse % 30);
+    if (status === 'storyboard_ready') return 5;
+    if (status === 'running') {
+      if (!progress || progress.scenes_total === 0) return RENDER_OFFSET;
+      return RENDER_OFFSET + (RENDER_SHARE * progress.scenes_completed) / progress.scenes_total;
+    }
     if (status === 'ready_for_assembly' || status === 'assembling') {
-      return assemblyProgress ?? 60 + (pulse % 35);
+      const assembled = RENDER_OFFSET + RENDER_SHARE;
+      if (!assemblyProgress) return assembled;
+      const { offset, share } = ASSEMBLY_PHASE_SHARE[assemblyProgress.phase];
+      return assembled + (100 - assembled) * (offset + share * assemblyProgress.progress);
     }
     if (status === 'done') return 100;
     return 0;
@@ -98,7 +146,9 @@ export function GenerateScreen({ status, onGenerate, onBack, assemblyProgress }:
                 {STATUS_MESSAGES[status]}
               </h1>
               <p className="text-muted-foreground">
-                {STATUS_DETAILS[status]}
+                {isRendering
+                  ? STAGE_DETAILS[progress.stage]
+                  : assemblyProgress ? assemblyDetail(assemblyProgress) : STATUS_DETAILS[status]}
               </p>
             </div>
 
@@ -107,7 +157,57 @@ export function GenerateScreen({ status, onGenerate, onBack, assemblyProgress }:
             </div>
             <p className="text-sm text-muted-foreground">
               {Math.round(getProgress())}% complete
+              {isRendering && progress.eta_sec ? ` · ${formatEta(progress.eta_sec)}` : ''}
             </p>
+
+            {isRendering && progress.scenes.length > 0 && (
+              <ul className="mt-8 space-y-2 text-left">
+                {progress.scenes.map((scene) => (
+                  <li
+                    key={scene.index}
+                    className="flex items-center justify-between rounded-xl bg-muted/30 px-4 py-2 text-sm"
+                  >
+                    <span className="text-foreground">
+                      Scene {scene.index + 1} · {scene.type === 'avatar' ? 'Performer' : 'B-roll'}
+                    </span>
+                    <span className="flex items-center gap-2 text-muted-foreground">
+                      {scene.status === 'running' && <Loader2 className="h-4 w-4 animate-spin" />}
+                      {scene.status === 'done' && <Check className="h-4 w-4 text-primary" />}
+                      {scene.status === 'error' && <AlertTriangle className="h-4 w-4 text-destructive" />}
+                      {SCENE_STATUS_LABELS[scene.status]}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {assemblyProgress && onCancelAssembly && (
+              <Button variant="ghost" className="mt-6" onClick={onCancelAssembly}>
+                <X className="mr-2 h-4 w-4" />
+                Cancel rendering
+              </Button>
+            )}
+          </>
+        )}
+
+        {assemblyCancelled && (
+          <>
+            <div className="mb-8">
+              <h1 className="mb-2 font-display text-4xl tracking-wider text-foreground md:text-5xl">
+                PAUSED
+              </h1>
+              <p className="text-muted-foreground">
+                Your clips are saved. Pick up the final render whenever you're ready.
+              </p>
+            </div>
+
+            <Button
+              variant="hero"
+              className="w-full"
+              onClick={onResumeAssembly}
+            >
+              RESUME RENDERING
+            </Button>
           </>
         )}
 
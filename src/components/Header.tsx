@@ -1,29 +1,60 @@
 import { useAuth } from '@/hooks/useAuth';
+import { useProfile } from '@/hooks/useProfile';
+import { useCredits } from '@/hooks/useCredits';
 import { Button } from '@/components/ui/button';
-import { LogOut, CreditCard } from 'lucide-react';
+import { BillingBanner } from '@/components/BillingBanner';
+import { billingNotice } from '@/lib/billing';
+import { formatCredits } from '@/lib/credits';
+import { LogOut, Coins, Film } from 'lucide-react';
 import { Link } from 'react-router-dom';
 
 export function Header() {
   const { user, signOut } = useAuth();
+  const { profile } = useProfile(user?.id);
+  const { balance } = useCredits(user?.id);
 
   if (!user) return null;
 
+  const notice = billingNotice(profile);
+
   return (
-    <header className="fixed top-0 left-0 right-0 z-50 flex items-center justify-between px-4 py-3 bg-background/80 backdrop-blur-md border-b border-border">
-      <Link to="/" className="font-display text-2xl tracking-wider gradient-text">
-        VEOSYNC
-      </Link>
-      
-      <div className="flex items-center gap-2">
-        <Link to="/billing">
-          <Button variant="ghost" size="sm">
-            <CreditCard className="h-4 w-4" />
-          </Button>
+    <header className="fixed top-0 left-0 right-0 z-50 bg-background/80 backdrop-blur-md border-b border-border">
+      <div className="flex items-center justify-between px-4 py-3">
+        <Link to="/" className="font-display text-2xl tracking-wider gradient-text">
+          VEOSYNC
         </Link>
-        <Button variant="ghost" size="sm" onClick={signOut}>
-          <LogOut className="h-4 w-4" />
-        </Button>
+
+        <div className="flex items-center gap-2">
+          <Link to="/library">
+            <Button variant="ghost" size="sm" aria-label="Library">
+              <Film className="h-4 w-4" />
+            </Button>
+          </Link>
+          <Link to="/billing">
+            <Button variant="ghost" size="sm" aria-label="Billing and credits">
+              <Coins className="h-4 w-4" />
+              {balance !== null && <span className="tabular-nums">{formatCredits(balance)}</span>}
+            </Button>
+          </Link>
+          <Button variant="ghost" size="sm" onClick={signOut}>
+            <LogOut className="h-4 w-4" />
+          </Button>
+        </div>
       </div>
+
+      {notice && (
+        <BillingBanner
+          notice={notice}
+          className="mx-4 mb-3"
+          action={
+            <Link to="/billing">
+              <Button variant="outline" size="sm">
+                {notice.kind === 'trial_ending' ? 'Add card' : 'Fix card'}
+              </Button>
+            </Link>
+          }
+        />
+      )}
     </header>
   );
 }
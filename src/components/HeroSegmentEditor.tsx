@@ -0,0 +1,176 @@
+import { useEffect, useRef } from 'react';
+import { Mic, Plus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { HERO_SEGMENT_LIMITS } from '@/lib/constants';
+import type { HeroSegment } from '@/types/veosync';
+
+interface HeroSegmentEditorProps {
+  // The excerpt the video covers, in song seconds
+  start: number;
+  end: number;
+  segments: HeroSegment[];
+  onChange: (segments: HeroSegment[]) => void;
+}
+
+type DragMode = 'move' | 'start' | 'end';
+
+const round = (seconds: number) => Math.round(seconds * 10) / 10;
+
+const formatTime = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(Math.floor(seconds % 60)).padStart(2, '0')}`;
+
+// Segments cut to the excerpt, dropping any left too short to lip-sync
+function fitToWindow(segments: HeroSegment[], start: number, end: number): HeroSegment[] {
+  return segments
+    .map((segment) => ({ start_sec: Math.max(start, segment.start_sec), end_sec: Math.min(end, segment.end_sec) }))
+    .filter((segment) => segment.end_sec - segment.start_sec >= HERO_SEGMENT_LIMITS.MIN_SEC);
+}
+
+// First gap in the excerpt with room for a default-length segment
+function nextFreeSlot(segments: HeroSegment[], start: number, end: number): HeroSegment | null {
+  let cursor = start;
+  for (const segment of [...segments, { start_sec: end, end_sec: end }]) {
+    const room = segment.start_sec - cursor;
+    if (room >= HERO_SEGMENT_LIMITS.MIN_SEC) {
+      return { start_sec: round(cursor), end_sec: round(cursor + Math.min(room, HERO_SEGMENT_LIMITS.DEFAULT_SEC)) };
+    }
+    cursor = segment.end_sec;
+  }
+  return null;
+}
+
+/**
+ * Lane under the excerpt for marking where the performer sings on camera.
+ * Segments are kept sorted and never overlap; each one is lip-synced on
+ * its own, and avatar scenes play the part of it they sit over.
+ */
+export function HeroSegmentEditor({ start, end, segments, onChange }: HeroSegmentEditorProps) {
+  const laneRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ index: number; mode: DragMode; originX: number; origin: HeroSegment } | null>(null);
+  const length = end - start;
+
+  // Moving or trimming the excerpt takes the segments with it. Segment edits are
+  // already kept in bounds, so those re-runs find nothing to change
+  useEffect(() => {
+    const fitted = fitToWindow(segments, start, end);
+    if (JSON.stringify(fitted) !== JSON.stringify(segments)) onChange(fitted);
+  }, [segments, start, end, onChange]);
+
+  const freeSlot = segments.length < HERO_SEGMENT_LIMITS.MAX_SEGMENTS ? nextFreeSlot(segments, start, end) : null;
+
+  const handleAdd = () => {
+    if (!freeSlot) return;
+    onChange([...segments, freeSlot].sort((a, b) => a.start_sec - b.start_sec));
+  };
+
+  const handleRemove = (index: number) => {
+    onChange(segments.filter((_, i) => i !== index));
+  };
+
+  const handlePointerDown = (index: number, mode: DragMode) => (e: React.PointerEvent) => {
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { index, mode, originX: e.clientX, origin: segments[index] };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const delta = (e.clientX - drag.originX) * (length / (laneRef.current?.clientWidth || 1));
+    // Neighbours bound every move so segments never overlap
+    const floor = segments[drag.index - 1]?.end_sec ?? start;
+    const ceiling = segments[drag.index + 1]?.start_sec ?? end;
+    const { start_sec: originStart, end_sec: originEnd } = drag.origin;
+
+    let nextStart = originStart;
+    let nextEnd = originEnd;
+    if (drag.mode === 'move') {
+      nextStart = Math.min(Math.max(floor, originStart + delta), ceiling - (originEnd - originStart));
+      nextEnd = nextStart + (originEnd - originStart);
+    } else if (drag.mode === 'start') {
+      nextStart = Math.min(
+        Math.max(floor, originStart + delta, originEnd - HERO_SEGMENT_LIMITS.MAX_SEC),
+        originEnd - HERO_SEGMENT_LIMITS.MIN_SEC
+      );
+    } else {
+      nextEnd = Math.max(
+        Math.min(ceiling, originEnd + delta, originStart + HERO_SEGMENT_LIMITS.MAX_SEC),
+        originStart + HERO_SEGMENT_LIMITS.MIN_SEC
+      );
+    }
+
+    onChange(segments.map((segment, index) =>
+      index === drag.index ? { start_sec: round(nextStart), end_sec: round(nextEnd) } : segment
+    ));
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  return (
+    <div className="mt-4" onClick={(e) => e.stopPropagation()}>
+      <div className="mb-2 flex items-center justify-between">
+        <div className="flex items-center gap-2 text-sm text-foreground">
+          <Mic className="h-4 w-4 text-primary" />
+          Where you sing on camera
+        </div>
+        <Button variant="ghost" size="sm" onClick={handleAdd} disabled={!freeSlot}>
+          <Plus className="h-4 w-4" />
+          Add
+        </Button>
+      </div>
+
+      <div
+        ref={laneRef}
+        className="relative h-8 touch-none select-none rounded-lg bg-muted/50"
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      >
+        {segments.map((segment, index) => (
+          <div
+            key={index}
+            className="absolute inset-y-0 cursor-grab rounded-md border-2 border-accent bg-accent/30 active:cursor-grabbing"
+            style={{
+              left: `${((segment.start_sec - start) / length) * 100}%`,
+              width: `${((segment.end_sec - segment.start_sec) / length) * 100}%`,
+            }}
+            onPointerDown={handlePointerDown(index, 'move')}
+          >
+            <div
+              className="absolute inset-y-0 -left-1 w-2 cursor-ew-resize rounded-full bg-accent"
+              onPointerDown={handlePointerDown(index, 'start')}
+              aria-label="Segment start"
+            />
+            <div
+              className="absolute inset-y-0 -right-1 w-2 cursor-ew-resize rounded-full bg-accent"
+              onPointerDown={handlePointerDown(index, 'end')}
+              aria-label="Segment end"
+            />
+          </div>
+        ))}
+      </div>
+
+      {segments.length === 0 ? (
+        <p className="mt-2 text-sm text-muted-foreground">
+          Optional. Mark the lines you want to perform and only those get lip-synced.
+        </p>
+      ) : (
+        <div className="mt-2 flex flex-wrap gap-2">
+          {segments.map((segment, index) => (
+            <span
+              key={index}
+              className="flex items-center gap-1 rounded-full bg-muted px-3 py-1 text-xs text-foreground"
+            >
+              {formatTime(segment.start_sec)} – {formatTime(segment.end_sec)}
+              <button onClick={() => handleRemove(index)} aria-label="Remove segment">
+                <X className="h-3 w-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
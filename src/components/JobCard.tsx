@@ -0,0 +1,133 @@
+import { useState } from 'react';
+import { AlertTriangle, Loader2, Play, RotateCcw, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { EMOTIONS } from '@/lib/emotions';
+import { isJobActive } from '@/lib/jobActions';
+import type { JobStatus, JobSummary } from '@/types/veosync';
+
+interface JobCardProps {
+  job: JobSummary;
+  onOpen: (job: JobSummary) => void;
+  onRetry: (job: JobSummary) => Promise<void>;
+  onDelete: (job: JobSummary) => Promise<void>;
+}
+
+const STATUS_LABELS: Record<JobStatus, string> = {
+  queued: 'Draft',
+  storyboard_ready: 'Storyboard ready',
+  running: 'Rendering',
+  ready_for_assembly: 'Assembling',
+  assembling: 'Assembling',
+  done: 'Done',
+  error: 'Failed',
+};
+
+const formatDuration = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(Math.round(seconds % 60)).padStart(2, '0')}`;
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+export function JobCard({ job, onOpen, onRetry, onDelete }: JobCardProps) {
+  const [busy, setBusy] = useState<'retry' | 'delete' | null>(null);
+  const emotion = EMOTIONS.find((e) => e.id === job.emotion);
+
+  const run = (action: 'retry' | 'delete', handler: (job: JobSummary) => Promise<void>) => async () => {
+    setBusy(action);
+    try {
+      await handler(job);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div className="overflow-hidden rounded-2xl border border-border bg-card">
+      <button
+        onClick={() => onOpen(job)}
+        className="group relative block aspect-[4/5] w-full bg-muted"
+        aria-label={job.status === 'done' ? 'Open video' : 'Open job'}
+      >
+        {job.thumbnail_url && job.thumbnail_type === 'video' && (
+          <video
+            src={`${job.thumbnail_url}#t=0.5`}
+            className="h-full w-full object-cover"
+            muted
+            playsInline
+            preload="metadata"
+          />
+        )}
+        {job.thumbnail_url && job.thumbnail_type === 'image' && (
+          <img src={job.thumbnail_url} alt="" className="h-full w-full object-cover" loading="lazy" />
+        )}
+        {job.status === 'done' && (
+          <span className="absolute inset-0 flex items-center justify-center bg-background/0 opacity-0 transition group-hover:bg-background/40 group-hover:opacity-100">
+            <Play className="h-10 w-10 text-foreground" />
+          </span>
+        )}
+        <span
+          className={`absolute left-2 top-2 flex items-center gap-1 rounded-full px-2 py-0.5 text-xs ${
+            job.status === 'error' ? 'bg-destructive text-destructive-foreground' : 'bg-background/80 text-foreground'
+          }`}
+        >
+          {job.status === 'error' && <AlertTriangle className="h-3 w-3" />}
+          {STATUS_LABELS[job.status]}
+        </span>
+        {job.duration_sec !== null && (
+          <span className="absolute bottom-2 right-2 rounded-full bg-background/80 px-2 py-0.5 text-xs text-foreground">
+            {formatDuration(job.duration_sec)}
+          </span>
+        )}
+      </button>
+
+      <div className="flex items-center justify-between gap-2 p-3">
+        <div className="min-w-0">
+          <p className="truncate font-display text-lg tracking-wider text-foreground">
+            {emotion ? `${emotion.icon} ${emotion.label}` : job.emotion}
+          </p>
+          <p className="text-xs text-muted-foreground">
+            {formatDate(job.created_at)} · {job.platform}
+          </p>
+        </div>
+
+        <div className="flex shrink-0 items-center">
+          {job.status === 'error' && (
+            <Button variant="ghost" size="sm" onClick={run('retry', onRetry)} disabled={busy !== null} aria-label="Retry">
+              {busy === 'retry' ? <Loader2 className="h-4 w-4 animate-spin" /> : <RotateCcw className="h-4 w-4" />}
+            </Button>
+          )}
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button variant="ghost" size="sm" disabled={busy !== null || isJobActive(job.status)} aria-label="Delete">
+                {busy === 'delete' ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Delete this video?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  The video, its exports and any uploads only it uses are removed for good.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction onClick={run('delete', onDelete)}>Delete</AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+import { useState } from 'react';
+import { AlertTriangle, Loader2, Star } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { ASPECT_CLASSES } from '@/lib/constants';
+import { describeChanges } from '@/lib/lineage';
+import type { AspectRatio, JobVersion } from '@/types/veosync';
+
+interface LineageViewProps {
+  versions: JobVersion[];
+  currentJobId: string;
+  // Versions keep their original's ratio
+  aspectRatio: AspectRatio;
+  onSelect: (jobId: string) => void;
+  onPromote: (version: JobVersion) => Promise<void>;
+}
+
+// Every version of the video side by side, with what each one changed
+export function LineageView({ versions, currentJobId, aspectRatio, onSelect, onPromote }: LineageViewProps) {
+  const [promoting, setPromoting] = useState<string | null>(null);
+
+  const handlePromote = async (version: JobVersion) => {
+    setPromoting(version.id);
+    try {
+      await onPromote(version);
+    } finally {
+      setPromoting(null);
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-2 gap-3 sm:grid-cols-3">
+      {versions.map((version) => {
+        const ready = version.status === 'done' && !!version.result_url;
+        const viewing = version.id === currentJobId;
+        return (
+          <div
+            key={version.id}
+            className={`overflow-hidden rounded-xl border bg-card ${
+              viewing ? 'border-primary ring-2 ring-primary' : 'border-border'
+            }`}
+          >
+            <button
+              onClick={() => ready && !viewing && onSelect(version.id)}
+              disabled={!ready}
+              className={`relative block w-full bg-muted ${ASPECT_CLASSES[aspectRatio]}`}
+              aria-label={`Watch version ${version.version}`}
+            >
+              {ready ? (
+                <video
+                  src={version.result_url!}
+                  className="h-full w-full object-cover"
+                  autoPlay
+                  muted
+                  loop
+                  playsInline
+                />
+              ) : (
+                <span className="absolute inset-0 flex flex-col items-center justify-center gap-2 text-xs text-muted-foreground">
+                  {version.status === 'error' ? (
+                    <>
+                      <AlertTriangle className="h-5 w-5 text-destructive" />
+                      Failed
+                    </>
+                  ) : (
+                    <>
+                      <Loader2 className="h-5 w-5 animate-spin" />
+                      Rendering
+                    </>
+                  )}
+                </span>
+              )}
+              <span className="absolute left-2 top-2 rounded-full bg-background/80 px-2 py-0.5 text-xs text-foreground">
+                v{version.version}
+              </span>
+              {version.is_current && (
+                <span className="absolute right-2 top-2 flex items-center gap-1 rounded-full bg-primary px-2 py-0.5 text-xs text-primary-foreground">
+                  <Star className="h-3 w-3" />
+                  Current
+                </span>
+              )}
+            </button>
+
+            <div className="space-y-1 p-2">
+              {describeChanges(version, versions).map((change) => (
+                <p key={change} className="truncate text-xs text-foreground">{change}</p>
+              ))}
+              {ready && !version.is_current && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 w-full text-xs"
+                  onClick={() => handlePromote(version)}
+                  disabled={promoting !== null}
+                >
+                  {promoting === version.id ? <Loader2 className="h-3 w-3 animate-spin" /> : 'Make current'}
+                </Button>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
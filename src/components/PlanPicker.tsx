@@ -0,0 +1,68 @@
+import { Check, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { PLAN_CATALOG, Plan, type PlanType } from '@/lib/constants';
+import { planFeatures, planTier } from '@/lib/billing';
+import { cn } from '@/lib/utils';
+
+interface PlanPickerProps {
+  // Free shows every paid tier as a new subscription; a paid plan shows the others as switches
+  currentPlan: PlanType;
+  busyPlan: PlanType | null;
+  onSelect: (plan: PlanType) => void;
+  className?: string;
+}
+
+const PAID_TIERS = PLAN_CATALOG.filter((tier) => tier.id !== Plan.FREE);
+
+export function PlanPicker({ currentPlan, busyPlan, onSelect, className }: PlanPickerProps) {
+  const current = planTier(currentPlan);
+
+  const actionLabel = (plan: PlanType) => {
+    if (current.id === Plan.FREE) return 'Start Free Trial';
+    return planTier(plan).priority > current.priority ? 'Upgrade' : 'Downgrade';
+  };
+
+  return (
+    <div className={cn('grid gap-4 sm:grid-cols-2', className)}>
+      {PAID_TIERS.map((tier) => {
+        const isCurrent = tier.id === current.id;
+        return (
+          <div
+            key={tier.id}
+            className={cn(
+              'flex flex-col rounded-2xl border bg-card p-5 text-left',
+              isCurrent ? 'border-primary' : 'border-border'
+            )}
+          >
+            <h3 className="font-display text-2xl tracking-wider text-foreground">{tier.label.toUpperCase()}</h3>
+            <p className="mb-4 text-sm text-muted-foreground">{tier.price}</p>
+
+            <ul className="mb-5 flex-1 space-y-2">
+              {planFeatures(tier).map((feature) => (
+                <li key={feature} className="flex items-center gap-2 text-sm text-foreground">
+                  <Check className="h-4 w-4 shrink-0 text-primary" />
+                  {feature}
+                </li>
+              ))}
+            </ul>
+
+            <Button
+              variant={isCurrent ? 'outline' : 'hero'}
+              className="w-full"
+              onClick={() => onSelect(tier.id)}
+              disabled={isCurrent || busyPlan !== null}
+            >
+              {busyPlan === tier.id ? (
+                <Loader2 className="h-5 w-5 animate-spin" />
+              ) : isCurrent ? (
+                'Current plan'
+              ) : (
+                actionLabel(tier.id)
+              )}
+            </Button>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -1,23 +1,53 @@
 import { useState, useRef, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
-import { Download, Share2, RefreshCw, Play, Pause } from 'lucide-react';
+import { Download, Share2, RefreshCw, Play, Pause, Captions } from 'lucide-react';
 import { toast } from 'sonner';
+import { ShareDialog } from '@/components/ShareDialog';
+import { LineageView } from '@/components/LineageView';
+import { useJobLineage } from '@/hooks/useJobLineage';
+import { toSrt, toWebVtt } from '@/lib/captions';
+import { promoteVersion } from '@/lib/lineage';
+import { logger } from '@/lib/logger';
+import { ASPECT_CLASSES, STYLE_CHIPS } from '@/lib/constants';
+import type { AspectRatio, CaptionCue, JobVersion, StyleChip } from '@/types/veosync';
 
 interface ResultScreenProps {
+  jobId: string;
+  userId: string;
+  // Set when this video is a later version of another
+  rootJobId?: string;
   videoUrl: string;
+  aspectRatio?: AspectRatio;
+  // Extra renders of the same video in other aspect ratios
+  exports?: { aspect_ratio: AspectRatio; url: string }[];
+  captions?: CaptionCue[];
   onMakeAnother: () => void;
-  onRegenerate: (style: string) => void;
+  onStartOver: () => void;
+  onRegenerate: (style: StyleChip) => void;
+  onSelectVersion: (jobId: string) => void;
 }
 
-const STYLE_CHIPS = [
-  { id: 'raw', label: 'More raw' },
-  { id: 'cinematic', label: 'More cinematic' },
-  { id: 'intense', label: 'More intense' },
-];
+const ratioFileSuffix = (ratio: AspectRatio) => ratio.replace(':', 'x');
 
-export function ResultScreen({ videoUrl, onMakeAnother, onRegenerate }: ResultScreenProps) {
+export function ResultScreen({
+  jobId,
+  userId,
+  rootJobId,
+  videoUrl,
+  aspectRatio = '9:16',
+  exports,
+  captions,
+  onMakeAnother,
+  onStartOver,
+  onRegenerate,
+  onSelectVersion,
+}: ResultScreenProps) {
   const videoRef = useRef<HTMLVideoElement>(null);
+  const { versions, reload: reloadVersions } = useJobLineage({ id: jobId, root_job_id: rootJobId });
+  // Links play the version marked current, or this one until there is one
+  const currentVersion = versions.find((version) => version.is_current && version.result_url);
   const [isPlaying, setIsPlaying] = useState(true);
+  const [shareOpen, setShareOpen] = useState(false);
 
   useEffect(() => {
     if (videoRef.current) {
@@ -36,41 +66,53 @@ export function ResultScreen({ videoUrl, onMakeAnother, onRegenerate }: ResultSc
     }
   };
 
-  const handleDownload = async () => {
+  const handleDownload = async (url = videoUrl, ratio = aspectRatio) => {
     try {
-      const response = await fetch(videoUrl);
+      const response = await fetch(url);
       const blob = await response.blob();
-      const url = URL.createObjectURL(blob);
+      const objectUrl = URL.createObjectURL(blob);
       const a = document.createElement('a');
-      a.href = url;
-      a.download = 'veosync-video.mp4';
+      a.href = objectUrl;
+      a.download = `veosync-video-${ratioFileSuffix(ratio)}.mp4`;
       document.body.appendChild(a);
       a.click();
       document.body.removeChild(a);
-      URL.revokeObjectURL(url);
+      URL.revokeObjectURL(objectUrl);
       toast.success('Download started!');
     } catch {
       toast.error('Failed to download video');
     }
   };
 
-  const handleShare = async () => {
-    if (navigator.share) {
-      try {
-        await navigator.share({
-          title: 'My VeoSync Video',
-          text: 'Check out my music video!',
-          url: window.location.href,
-        });
-      } catch {
-        // User cancelled
-      }
-    } else {
-      await navigator.clipboard.writeText(window.location.href);
-      toast.success('Link copied to clipboard!');
+  const handlePromote = async (version: JobVersion) => {
+    try {
+      await promoteVersion(version, versions, userId);
+      toast.success(`Version ${version.version} is now the one you share`);
+    } catch (error) {
+      logger.withJob(version.id, userId).error('Failed to promote version', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      toast.error('Failed to update the current version');
+    } finally {
+      reloadVersions();
     }
   };
 
+  const handleCaptionDownload = (format: 'srt' | 'vtt') => {
+    if (!captions) return;
+    const content = format === 'srt' ? toSrt(captions) : toWebVtt(captions);
+    const url = URL.createObjectURL(
+      new Blob([content], { type: format === 'srt' ? 'application/x-subrip' : 'text/vtt' })
+    );
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `veosync-lyrics.${format}`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
   return (
     <div className="flex min-h-screen flex-col items-center justify-center px-4 py-8">
       <div className="w-full max-w-lg animate-fade-in">
@@ -79,7 +121,7 @@ export function ResultScreen({ videoUrl, onMakeAnother, onRegenerate }: ResultSc
         </h1>
 
         {/* Video Player */}
-        <div className="relative mb-6 overflow-hidden rounded-2xl bg-muted aspect-[9/16]">
+        <div className={`relative mb-6 overflow-hidden rounded-2xl bg-muted ${ASPECT_CLASSES[aspectRatio]}`}>
           <video
             ref={videoRef}
             src={videoUrl}
@@ -106,7 +148,7 @@ export function ResultScreen({ videoUrl, onMakeAnother, onRegenerate }: ResultSc
           <Button
             variant="default"
             className="flex-1"
-            onClick={handleDownload}
+            onClick={() => handleDownload()}
           >
             <Download className="h-5 w-5" />
             Download
@@ -114,13 +156,58 @@ export function ResultScreen({ videoUrl, onMakeAnother, onRegenerate }: ResultSc
           <Button
             variant="outline"
             className="flex-1"
-            onClick={handleShare}
+            onClick={() => setShareOpen(true)}
           >
             <Share2 className="h-5 w-5" />
             Share
           </Button>
         </div>
 
+        {exports && exports.length > 0 && (
+          <div className="mb-6 flex flex-wrap justify-center gap-2">
+            {exports.map((output) => (
+              <Button
+                key={output.aspect_ratio}
+                variant="chip"
+                size="sm"
+                onClick={() => handleDownload(output.url, output.aspect_ratio)}
+              >
+                <Download className="h-4 w-4" />
+                {output.aspect_ratio}
+              </Button>
+            ))}
+          </div>
+        )}
+
+        {captions && captions.length > 0 && (
+          <div className="mb-6 flex justify-center gap-2">
+            <Button variant="chip" size="sm" onClick={() => handleCaptionDownload('srt')}>
+              <Captions className="h-4 w-4" />
+              Lyrics .srt
+            </Button>
+            <Button variant="chip" size="sm" onClick={() => handleCaptionDownload('vtt')}>
+              <Captions className="h-4 w-4" />
+              Lyrics .vtt
+            </Button>
+          </div>
+        )}
+
+        {/* Every version side by side */}
+        {versions.length > 1 && (
+          <div className="mb-6">
+            <p className="mb-3 text-center text-sm text-muted-foreground">
+              Versions
+            </p>
+            <LineageView
+              versions={versions}
+              currentJobId={jobId}
+              aspectRatio={aspectRatio}
+              onSelect={onSelectVersion}
+              onPromote={handlePromote}
+            />
+          </div>
+        )}
+
         {/* Style Chips */}
         <div className="mb-6">
           <p className="mb-3 text-center text-sm text-muted-foreground">
@@ -149,7 +236,23 @@ export function ResultScreen({ videoUrl, onMakeAnother, onRegenerate }: ResultSc
           <RefreshCw className="h-5 w-5" />
           Make another version
         </Button>
+        <Button
+          variant="link"
+          className="w-full text-muted-foreground"
+          onClick={onStartOver}
+        >
+          Start a new video
+        </Button>
       </div>
+
+      <ShareDialog
+        jobId={currentVersion?.id ?? jobId}
+        lineageJobIds={versions.length > 0 ? versions.map((version) => version.id) : [jobId]}
+        userId={userId}
+        videoUrl={currentVersion?.result_url ?? videoUrl}
+        open={shareOpen}
+        onOpenChange={setShareOpen}
+      />
     </div>
   );
 }
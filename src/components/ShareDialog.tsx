@@ -0,0 +1,175 @@
+import { useEffect, useState } from 'react';
+import { Copy, Eye, Link2Off, Loader2, Share2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { SHARE_EXPIRY_OPTIONS } from '@/lib/constants';
+import { logger } from '@/lib/logger';
+import { createShare, getActiveShare, revokeShare, shareUrl } from '@/lib/shares';
+import type { Share } from '@/types/veosync';
+
+interface ShareDialogProps {
+  // The version a new link is made from
+  jobId: string;
+  // Every version of the video; a link made from any of them is reused
+  lineageJobIds: string[];
+  userId: string;
+  videoUrl: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const formatExpiry = (expiresAt: string | null) =>
+  expiresAt
+    ? `Expires ${new Date(expiresAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}`
+    : 'Never expires';
+
+export function ShareDialog({ jobId, lineageJobIds, userId, videoUrl, open, onOpenChange }: ShareDialogProps) {
+  const [share, setShare] = useState<Share | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [expiresInDays, setExpiresInDays] = useState<number | null>(SHARE_EXPIRY_OPTIONS[0].days);
+
+  const lineageKey = lineageJobIds.join(',');
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    setLoading(true);
+    getActiveShare(lineageKey.split(','))
+      .then((active) => {
+        if (!cancelled) setShare(active);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, lineageKey]);
+
+  const log = logger.withJob(jobId, userId);
+
+  const handleCreate = async () => {
+    setBusy(true);
+    try {
+      setShare(await createShare({ jobId, userId, videoUrl, expiresInDays }));
+    } catch (error) {
+      log.error('Failed to create share', { error: error instanceof Error ? error.message : String(error) });
+      toast.error('Failed to create a link. Please try again.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRevoke = async () => {
+    if (!share) return;
+    setBusy(true);
+    try {
+      await revokeShare(share.id);
+      setShare(null);
+      toast.success('Link turned off');
+    } catch (error) {
+      log.error('Failed to revoke share', { error: error instanceof Error ? error.message : String(error) });
+      toast.error('Failed to turn off this link');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!share) return;
+    await navigator.clipboard.writeText(shareUrl(share.id));
+    toast.success('Link copied to clipboard!');
+  };
+
+  const handleNativeShare = async () => {
+    if (!share) return;
+    try {
+      await navigator.share({
+        title: 'My VeoSync Video',
+        text: 'Check out my music video!',
+        url: shareUrl(share.id),
+      });
+    } catch {
+      // User cancelled
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="font-display text-2xl tracking-wider">SHARE</DialogTitle>
+          <DialogDescription>
+            Anyone with the link can watch this video, always the version marked current. You can turn
+            the link off at any time.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading && (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        )}
+
+        {!loading && !share && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+              {SHARE_EXPIRY_OPTIONS.map((option) => (
+                <Button
+                  key={option.label}
+                  variant={expiresInDays === option.days ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => setExpiresInDays(option.days)}
+                >
+                  {option.label}
+                </Button>
+              ))}
+            </div>
+            <Button variant="hero" className="w-full" onClick={handleCreate} disabled={busy}>
+              {busy ? <Loader2 className="h-5 w-5 animate-spin" /> : 'CREATE LINK'}
+            </Button>
+          </div>
+        )}
+
+        {!loading && share && (
+          <div className="space-y-4">
+            <div className="flex gap-2">
+              <Input readOnly value={shareUrl(share.id)} onFocus={(e) => e.target.select()} />
+              <Button variant="outline" size="icon" onClick={handleCopy} aria-label="Copy link">
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+            <div className="flex items-center justify-between text-sm text-muted-foreground">
+              <span className="flex items-center gap-1">
+                <Eye className="h-4 w-4" />
+                {share.view_count} {share.view_count === 1 ? 'view' : 'views'}
+              </span>
+              <span>{formatExpiry(share.expires_at)}</span>
+            </div>
+            <div className="flex gap-2">
+              {typeof navigator.share === 'function' && (
+                <Button variant="hero" className="flex-1" onClick={handleNativeShare}>
+                  <Share2 className="h-5 w-5" />
+                  Share
+                </Button>
+              )}
+              <Button variant="ghost" className="flex-1" onClick={handleRevoke} disabled={busy}>
+                <Link2Off className="h-4 w-4" />
+                Turn off link
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,243 @@
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Slider } from '@/components/ui/slider';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowDown, ArrowUp, Film, Loader2, Mic, Plus, Trash2 } from 'lucide-react';
+import { STORYBOARD_LIMITS } from '@/lib/constants';
+import { CaptionTrackSchema, StoryboardSchema } from '@/lib/schemas';
+import { TRANSITION_LABELS } from '@/lib/editing';
+import { CaptionTimingEditor } from '@/components/CaptionTimingEditor';
+import type { CaptionTrack, StoryboardScene, StoryboardSceneType, TransitionType } from '@/types/veosync';
+
+interface StoryboardScreenProps {
+  scenes: StoryboardScene[] | null;
+  onUpdateScenes: (scenes: StoryboardScene[]) => void;
+  captions?: CaptionTrack | null;
+  audioUrl?: string;
+  bpm?: number;
+  // Length of the excerpt; the scenes can't run past the end of the song
+  maxDurationSec?: number;
+  onUpdateCaptions?: (captions: CaptionTrack) => void;
+  onConfirm: () => void;
+  onBack: () => void;
+}
+
+const SCENE_TYPES: { id: StoryboardSceneType; label: string; icon: typeof Mic }[] = [
+  { id: 'avatar', label: 'Performer', icon: Mic },
+  { id: 'broll', label: 'B-roll', icon: Film },
+];
+
+// Radix Select can't hold an empty value, so "auto" stands for the emotion's default
+const AUTO_TRANSITION = 'auto';
+
+export function StoryboardScreen({
+  scenes,
+  onUpdateScenes,
+  captions,
+  audioUrl,
+  bpm,
+  maxDurationSec,
+  onUpdateCaptions,
+  onConfirm,
+  onBack,
+}: StoryboardScreenProps) {
+  if (!scenes) {
+    return (
+      <div className="flex min-h-screen flex-col items-center justify-center px-4 py-8">
+        <div className="w-full max-w-lg animate-fade-in text-center">
+          <div className="mx-auto mb-6 flex h-32 w-32 items-center justify-center rounded-full gradient-bg">
+            <Loader2 className="h-16 w-16 text-primary animate-spin" />
+          </div>
+          <h1 className="mb-2 font-display text-4xl tracking-wider text-foreground md:text-5xl">
+            DRAFTING YOUR STORYBOARD...
+          </h1>
+          <p className="text-muted-foreground">
+            Picking the shots before we spend any render time
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  const updateScene = (index: number, updates: Partial<StoryboardScene>) => {
+    onUpdateScenes(scenes.map((scene, i) => (i === index ? { ...scene, ...updates } : scene)));
+  };
+
+  const moveScene = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= scenes.length) return;
+    const next = [...scenes];
+    [next[index], next[target]] = [next[target], next[index]];
+    onUpdateScenes(next);
+  };
+
+  const deleteScene = (index: number) => {
+    onUpdateScenes(scenes.filter((_, i) => i !== index));
+  };
+
+  const addScene = () => {
+    onUpdateScenes([
+      ...scenes,
+      { type: 'broll', prompt: '', duration_sec: STORYBOARD_LIMITS.MIN_SCENE_SEC + 1 },
+    ]);
+  };
+
+  const totalDuration = scenes.reduce((sum, scene) => sum + scene.duration_sec, 0);
+  const overrun = maxDurationSec !== undefined && totalDuration > maxDurationSec
+    ? Math.round((totalDuration - maxDurationSec) * 10) / 10
+    : 0;
+  const isValid = StoryboardSchema.safeParse(scenes).success
+    && overrun === 0
+    && (!captions || CaptionTrackSchema.safeParse(captions).success);
+  const canAdd = scenes.length < STORYBOARD_LIMITS.MAX_SCENES;
+  const canDelete = scenes.length > STORYBOARD_LIMITS.MIN_SCENES;
+
+  return (
+    <div className="flex min-h-screen flex-col items-center justify-center px-4 py-8">
+      <div className="w-full max-w-lg animate-fade-in">
+        <button
+          onClick={onBack}
+          className="mb-6 font-body text-sm text-muted-foreground hover:text-foreground"
+        >
+          ← Back
+        </button>
+
+        <h1 className="mb-2 text-center font-display text-4xl tracking-wider text-foreground md:text-5xl">
+          YOUR STORYBOARD
+        </h1>
+        <p className="mb-8 text-center text-sm text-muted-foreground">
+          {scenes.length} scenes · {totalDuration}s — tweak anything before we render.
+          {bpm && <> Cuts snap to the beat at {Math.round(bpm)} BPM.</>}
+        </p>
+
+        <div className="mb-6 space-y-4">
+          {scenes.map((scene, index) => (
+            <div
+              key={index}
+              className="gradient-border relative overflow-hidden rounded-2xl bg-muted/30 p-4"
+            >
+              <div className="mb-3 flex items-center justify-between">
+                <h3 className="font-display text-xl tracking-wider">SCENE {index + 1}</h3>
+                <div className="flex items-center gap-1">
+                  <button
+                    onClick={() => moveScene(index, -1)}
+                    disabled={index === 0}
+                    className="p-1 text-muted-foreground hover:text-foreground disabled:opacity-30"
+                    aria-label="Move scene up"
+                  >
+                    <ArrowUp className="h-4 w-4" />
+                  </button>
+                  <button
+                    onClick={() => moveScene(index, 1)}
+                    disabled={index === scenes.length - 1}
+                    className="p-1 text-muted-foreground hover:text-foreground disabled:opacity-30"
+                    aria-label="Move scene down"
+                  >
+                    <ArrowDown className="h-4 w-4" />
+                  </button>
+                  <button
+                    onClick={() => deleteScene(index)}
+                    disabled={!canDelete}
+                    className="p-1 text-muted-foreground hover:text-destructive disabled:opacity-30"
+                    aria-label="Delete scene"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              </div>
+
+              <div className="mb-3 flex gap-2">
+                {SCENE_TYPES.map(({ id, label, icon: Icon }) => (
+                  <Button
+                    key={id}
+                    variant="chip"
+                    size="sm"
+                    className={scene.type === id ? 'border-primary text-primary' : ''}
+                    onClick={() => updateScene(index, { type: id })}
+                  >
+                    <Icon className="h-4 w-4" />
+                    {label}
+                  </Button>
+                ))}
+                {index > 0 && (
+                  <Select
+                    value={scene.transition ?? AUTO_TRANSITION}
+                    onValueChange={(value) => updateScene(index, {
+                      transition: value === AUTO_TRANSITION ? undefined : (value as TransitionType),
+                    })}
+                  >
+                    <SelectTrigger className="ml-auto h-9 w-36 bg-muted/50 text-sm" aria-label="Transition into this scene">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={AUTO_TRANSITION}>Auto transition</SelectItem>
+                      {(Object.keys(TRANSITION_LABELS) as TransitionType[]).map((type) => (
+                        <SelectItem key={type} value={type}>
+                          {TRANSITION_LABELS[type]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              </div>
+
+              <Textarea
+                value={scene.prompt}
+                onChange={(e) => updateScene(index, { prompt: e.target.value })}
+                maxLength={STORYBOARD_LIMITS.MAX_PROMPT_LENGTH}
+                placeholder="Describe what happens in this shot..."
+                className="mb-3 min-h-[80px] resize-none border-none bg-muted/50 text-foreground placeholder:text-muted-foreground"
+              />
+
+              <div className="flex items-center gap-4">
+                <Slider
+                  value={[scene.duration_sec]}
+                  min={STORYBOARD_LIMITS.MIN_SCENE_SEC}
+                  max={STORYBOARD_LIMITS.MAX_SCENE_SEC}
+                  step={1}
+                  onValueChange={([value]) => updateScene(index, { duration_sec: value })}
+                />
+                <span className="w-10 text-right text-sm text-muted-foreground">
+                  {scene.duration_sec}s
+                </span>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <Button
+          variant="ghost"
+          className="mb-6 w-full"
+          onClick={addScene}
+          disabled={!canAdd}
+        >
+          <Plus className="h-5 w-5" />
+          Add scene
+        </Button>
+
+        {captions && captions.cues.length > 0 && audioUrl && onUpdateCaptions && (
+          <CaptionTimingEditor
+            captions={captions}
+            audioUrl={audioUrl}
+            onUpdateCaptions={onUpdateCaptions}
+          />
+        )}
+
+        {overrun > 0 && (
+          <p className="mb-3 text-center text-sm text-destructive">
+            The scenes run {overrun}s past the end of your {Math.round(maxDurationSec!)}s excerpt. Shorten or remove a scene.
+          </p>
+        )}
+
+        <Button
+          variant="hero"
+          className="w-full"
+          disabled={!isValid}
+          onClick={onConfirm}
+        >
+          MAKE IT HIT
+        </Button>
+      </div>
+    </div>
+  );
+}
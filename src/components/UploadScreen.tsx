@@ -2,36 +2,53 @@ import { useRef, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { Camera, Music, FileText, X, Check } from 'lucide-react';
+import { AudioTrimmer } from '@/components/AudioTrimmer';
+import { HeroSegmentEditor } from '@/components/HeroSegmentEditor';
+import { AspectRatioPicker } from '@/components/AspectRatioPicker';
+import { formatCredits } from '@/lib/credits';
+import { detectFocus } from '@/lib/reframe';
 import type { UploadState } from '@/types/veosync';
 
 interface UploadScreenProps {
   uploads: UploadState;
   onUpdateUploads: (updates: Partial<UploadState>) => void;
+  // Most the video can cost; shown once a song is picked
+  creditEstimate: number | null;
+  // Longest excerpt the user's plan renders
+  maxExcerptSec?: number;
   onContinue: () => void;
   onBack: () => void;
 }
 
-export function UploadScreen({ uploads, onUpdateUploads, onContinue, onBack }: UploadScreenProps) {
+export function UploadScreen({ uploads, onUpdateUploads, creditEstimate, maxExcerptSec, onContinue, onBack }: UploadScreenProps) {
   const selfieInputRef = useRef<HTMLInputElement>(null);
   const audioInputRef = useRef<HTMLInputElement>(null);
+  const latestSelfieRef = useRef<File | null>(null);
   const [showLyrics, setShowLyrics] = useState(false);
 
   const handleSelfieChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
       const preview = URL.createObjectURL(file);
-      onUpdateUploads({ selfie: file, selfiePreview: preview });
+      latestSelfieRef.current = file;
+      onUpdateUploads({ selfie: file, selfiePreview: preview, selfieFocus: null });
+      // Find the face so other aspect ratios can be cropped around it
+      detectFocus(file).then((focus) => {
+        if (latestSelfieRef.current === file) onUpdateUploads({ selfieFocus: focus });
+      });
     }
   };
 
   const handleAudioChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
-      onUpdateUploads({ audio: file, audioName: file.name });
+      onUpdateUploads({ audio: file, audioName: file.name, audioDuration: null, audioStart: 0, audioEnd: null, beatGrid: null, heroSegments: [] });
     }
   };
 
   const canContinue = uploads.selfie && uploads.audio;
+  // Hero segments are marked inside whatever part of the song the video covers
+  const excerptEnd = uploads.audioEnd ?? uploads.audioDuration;
 
   return (
     <div className="flex min-h-screen flex-col items-center justify-center px-4 py-8">
@@ -122,6 +139,23 @@ export function UploadScreen({ uploads, onUpdateUploads, onContinue, onBack }: U
                 </p>
               </div>
             </div>
+            {uploads.audio && (
+              <AudioTrimmer
+                file={uploads.audio}
+                start={uploads.audioStart}
+                end={uploads.audioEnd}
+                maxSec={maxExcerptSec}
+                onChange={onUpdateUploads}
+              />
+            )}
+            {uploads.audio && excerptEnd !== null && (
+              <HeroSegmentEditor
+                start={uploads.audioStart}
+                end={excerptEnd}
+                segments={uploads.heroSegments}
+                onChange={(heroSegments) => onUpdateUploads({ heroSegments })}
+              />
+            )}
           </div>
 
           {/* Lyrics Card */}
@@ -165,6 +199,12 @@ export function UploadScreen({ uploads, onUpdateUploads, onContinue, onBack }: U
               </div>
             )}
           </div>
+
+          <AspectRatioPicker
+            platform={uploads.platform}
+            exportPlatforms={uploads.exportPlatforms}
+            onChange={onUpdateUploads}
+          />
         </div>
 
         <Button
@@ -175,6 +215,12 @@ export function UploadScreen({ uploads, onUpdateUploads, onContinue, onBack }: U
         >
           Continue
         </Button>
+
+        {creditEstimate !== null && (
+          <p className="mt-3 text-center text-xs text-muted-foreground">
+            Uses up to {formatCredits(creditEstimate)} credits. Whatever the render doesn't need comes back.
+          </p>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from 'react';
+import { getClientAssembly, subscribeClientAssembly } from '@/lib/clientAssembly';
+
+// Live state of this tab's assembly of a job, or null if it has none
+export function useClientAssembly(jobId: string | null) {
+  return useSyncExternalStore(subscribeClientAssembly, () => getClientAssembly(jobId));
+}
@@ -0,0 +1,56 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+
+// Credits left to spend; holds for videos in progress are already taken out
+export function useCredits(userId: string | undefined) {
+  const [balance, setBalance] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!userId) {
+      setLoading(false);
+      return;
+    }
+
+    const fetchBalance = async () => {
+      const { data, error } = await supabase
+        .from('credit_balances')
+        .select('balance')
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      // No row yet means nothing has been granted or spent
+      if (!error) {
+        setBalance(data?.balance ?? 0);
+      }
+      setLoading(false);
+    };
+
+    fetchBalance();
+
+    // Holds, settlements and grants are all written server-side, so follow them live
+    const channel = supabase
+      .channel(`credit-changes-${userId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'credit_balances',
+          filter: `user_id=eq.${userId}`,
+        },
+        (payload) => {
+          if (payload.new && 'balance' in payload.new) {
+            setBalance(payload.new.balance as number);
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      channel.unsubscribe();
+    };
+  }, [userId]);
+
+  return { balance, loading };
+}
@@ -1,6 +1,6 @@
 import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
-import type { Job, JobStatus, AssemblyManifest } from '@/types/veosync';
+import type { Job, JobStatus, JobProgress, AspectRatio, AssemblyManifest, AssemblyMode, BeatGrid, CaptionTrack, FocusPoint, HeroSegment, ProviderConfig, StoryboardScene, StyleChip } from '@/types/veosync';
 
 interface DbJob {
   id: string;
@@ -10,10 +10,28 @@ interface DbJob {
   lyrics: string | null;
   song_url: string | null;
   selfie_url: string | null;
+  selfie_focus: unknown;
+  platform: string;
+  export_platforms: string[] | null;
+  outputs: unknown;
+  audio_start_sec: number | null;
+  audio_end_sec: number | null;
+  beat_grid: unknown;
+  hero_segments: unknown;
   result_url: string | null;
   provider_refs: Record<string, unknown>;
+  providers: unknown;
   error: string | null;
+  storyboard: unknown;
+  captions: unknown;
+  progress: unknown;
   assembly_manifest: unknown;
+  assembly_mode: string;
+  parent_job_id: string | null;
+  root_job_id: string | null;
+  version: number | null;
+  is_current: boolean | null;
+  style_chips: string[] | null;
   created_at: string;
   updated_at: string;
 }
@@ -27,10 +45,28 @@ function parseJob(data: DbJob): Job {
     lyrics: data.lyrics ?? undefined,
     song_url: data.song_url ?? '',
     selfie_url: data.selfie_url ?? '',
+    selfie_focus: (data.selfie_focus as FocusPoint | null) ?? undefined,
+    platform: (data.platform ?? '9:16') as AspectRatio,
+    export_platforms: (data.export_platforms ?? []) as AspectRatio[],
+    audio_start_sec: data.audio_start_sec ?? undefined,
+    audio_end_sec: data.audio_end_sec ?? undefined,
+    beat_grid: (data.beat_grid as BeatGrid | null) ?? undefined,
+    hero_segments: (data.hero_segments as HeroSegment[] | null) ?? undefined,
     result_url: data.result_url ?? undefined,
+    outputs: (data.outputs as Job['outputs'] | null) ?? undefined,
     provider_refs: data.provider_refs ?? {},
+    providers: (data.providers as ProviderConfig | null) ?? undefined,
     error: data.error ?? undefined,
+    storyboard: (data.storyboard as StoryboardScene[] | null) ?? undefined,
+    captions: (data.captions as CaptionTrack | null) ?? undefined,
+    progress: (data.progress as JobProgress | null) ?? undefined,
     assembly_manifest: data.assembly_manifest as AssemblyManifest | undefined,
+    assembly_mode: (data.assembly_mode ?? 'client') as AssemblyMode,
+    parent_job_id: data.parent_job_id ?? undefined,
+    root_job_id: data.root_job_id ?? undefined,
+    version: data.version ?? 1,
+    is_current: data.is_current ?? false,
+    style_chips: (data.style_chips ?? []) as StyleChip[],
     created_at: data.created_at,
     updated_at: data.updated_at,
   };
@@ -105,18 +141,5 @@ export function useJob(jobId: string | null) {
     };
   }, [jobId]); // Only depend on jobId - removed fetchJob to prevent memory leak
 
-  const updateStatus = async (status: JobStatus) => {
-    if (!jobId) return;
-    
-    const { error } = await supabase
-      .from('jobs')
-      .update({ status })
-      .eq('id', jobId);
-
-    if (error) {
-      setError(error.message);
-    }
-  };
-
-  return { job, loading, error, fetchJob, updateStatus };
+  return { job, loading, error, fetchJob };
 }
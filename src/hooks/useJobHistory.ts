@@ -0,0 +1,135 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { JOB_HISTORY, JobStatus, URL_EXPIRY } from '@/lib/constants';
+import { resignUrls } from '@/lib/storage';
+import type { AspectRatio, Emotion, JobStatus as JobStatusValue, JobSummary } from '@/types/veosync';
+
+export type JobStatusFilter = 'all' | 'done' | 'in_progress' | 'error';
+
+export interface JobHistoryFilters {
+  emotion: Emotion | 'all';
+  status: JobStatusFilter;
+}
+
+const STATUS_FILTERS: Record<Exclude<JobStatusFilter, 'all'>, JobStatusValue[]> = {
+  done: [JobStatus.DONE],
+  in_progress: [
+    JobStatus.QUEUED,
+    JobStatus.STORYBOARD_READY,
+    JobStatus.RUNNING,
+    JobStatus.READY_FOR_ASSEMBLY,
+    JobStatus.ASSEMBLING,
+  ],
+  error: [JobStatus.ERROR],
+};
+
+interface DbJobSummary {
+  id: string;
+  status: string;
+  emotion: string;
+  platform: string;
+  selfie_url: string | null;
+  result_url: string | null;
+  audio_start_sec: number | null;
+  audio_end_sec: number | null;
+  target: { duration_sec?: number } | null;
+  error: string | null;
+  created_at: string;
+}
+
+// Just what a card needs; the manifest's target carries the rendered length
+const SUMMARY_COLUMNS: string =
+  'id, status, emotion, platform, selfie_url, result_url, audio_start_sec, audio_end_sec, target:assembly_manifest->target, error, created_at';
+
+const isVideoUrl = (url: string) => /\.(mp4|mov|webm|m4v)(\?|$)/i.test(new URL(url).pathname);
+
+// Finished jobs show their own video; everything else shows the selfie
+async function toSummaries(rows: DbJobSummary[]): Promise<JobSummary[]> {
+  const thumbnailSource = (row: DbJobSummary) =>
+    (row.status === JobStatus.DONE && row.result_url) || row.selfie_url;
+  const signed = await resignUrls(
+    rows.map(thumbnailSource).filter((url): url is string => !!url),
+    URL_EXPIRY.UPLOAD
+  );
+
+  return rows.map((row) => {
+    const source = thumbnailSource(row);
+    const thumbnail = source ? signed.get(source) ?? null : null;
+    return {
+      id: row.id,
+      status: row.status as JobStatusValue,
+      emotion: row.emotion as Emotion,
+      platform: (row.platform ?? '9:16') as AspectRatio,
+      duration_sec: row.target?.duration_sec
+        ?? (row.audio_end_sec !== null ? row.audio_end_sec - (row.audio_start_sec ?? 0) : null),
+      thumbnail_url: thumbnail,
+      thumbnail_type: thumbnail && isVideoUrl(thumbnail) ? 'video' : 'image',
+      error: row.error ?? undefined,
+      created_at: row.created_at,
+    };
+  });
+}
+
+/**
+ * The user's jobs, newest first, a page at a time. Pages continue from the
+ * last created_at seen so each one is a range scan on idx_jobs_user_created.
+ */
+export function useJobHistory(userId: string | undefined, filters: JobHistoryFilters) {
+  const [jobs, setJobs] = useState<JobSummary[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [hasMore, setHasMore] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  // Bumped on every filter change so responses for old filters are dropped
+  const generationRef = useRef(0);
+  const loadingRef = useRef(false);
+
+  const fetchPage = useCallback(async (before: string | null, generation: number) => {
+    if (!userId) return;
+    loadingRef.current = true;
+    setLoading(true);
+
+    let query = supabase
+      .from('jobs')
+      .select(SUMMARY_COLUMNS)
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(JOB_HISTORY.PAGE_SIZE);
+    if (before) query = query.lt('created_at', before);
+    if (filters.emotion !== 'all') query = query.eq('emotion', filters.emotion);
+    if (filters.status !== 'all') query = query.in('status', STATUS_FILTERS[filters.status]);
+
+    const { data, error: fetchError } = await query;
+    const page = data ? await toSummaries(data as unknown as DbJobSummary[]) : [];
+    if (generation !== generationRef.current) return;
+
+    if (fetchError) {
+      setError(fetchError.message);
+      setHasMore(false);
+    } else {
+      setJobs((prev) => (before ? [...prev, ...page] : page));
+      setHasMore(page.length === JOB_HISTORY.PAGE_SIZE);
+    }
+    loadingRef.current = false;
+    setLoading(false);
+  }, [userId, filters.emotion, filters.status]);
+
+  useEffect(() => {
+    const generation = ++generationRef.current;
+    setJobs([]);
+    setError(null);
+    setHasMore(true);
+    fetchPage(null, generation);
+  }, [fetchPage]);
+
+  const loadMore = useCallback(() => {
+    if (loadingRef.current || !hasMore || jobs.length === 0) return;
+    fetchPage(jobs[jobs.length - 1].created_at, generationRef.current);
+  }, [fetchPage, hasMore, jobs]);
+
+  // Drop a deleted job without refetching
+  const removeJob = useCallback((jobId: string) => {
+    setJobs((prev) => prev.filter((job) => job.id !== jobId));
+  }, []);
+
+  return { jobs, loading, hasMore, error, loadMore, removeJob };
+}
@@ -0,0 +1,84 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { JobStatus, URL_EXPIRY } from '@/lib/constants';
+import { isSignedUrlExpired, resignUrls } from '@/lib/storage';
+import type { Emotion, Job, JobStatus as JobStatusValue, JobVersion, StyleChip } from '@/types/veosync';
+
+// Versions still rendering are checked again at this interval
+const REFRESH_INTERVAL_MS = 10000;
+
+interface DbJobVersion {
+  id: string;
+  parent_job_id: string | null;
+  version: number;
+  is_current: boolean;
+  status: string;
+  emotion: string;
+  style_chips: string[] | null;
+  scenes_edited: number | null;
+  result_url: string | null;
+  created_at: string;
+}
+
+const VERSION_COLUMNS: string =
+  'id, parent_job_id, version, is_current, status, emotion, style_chips, scenes_edited:provider_refs->scenes_edited, result_url, created_at';
+
+/**
+ * Every version of the job's video, from the original on: the job it
+ * descends from plus everything else made from that original.
+ */
+export function useJobLineage(job: Pick<Job, 'id' | 'root_job_id'> | null) {
+  const [versions, setVersions] = useState<JobVersion[]>([]);
+  const [generation, setGeneration] = useState(0);
+  const rootId = job ? job.root_job_id ?? job.id : null;
+
+  useEffect(() => {
+    if (!rootId) return;
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const load = async () => {
+      const { data } = await supabase
+        .from('jobs')
+        .select(VERSION_COLUMNS)
+        .or(`id.eq.${rootId},root_job_id.eq.${rootId}`)
+        .order('version', { ascending: true });
+      if (cancelled || !data) return;
+
+      const rows = data as unknown as DbJobVersion[];
+      const expired = rows
+        .map((row) => row.result_url)
+        .filter((url): url is string => !!url && isSignedUrlExpired(url));
+      const signed = expired.length > 0 ? await resignUrls(expired, URL_EXPIRY.OUTPUT) : new Map<string, string>();
+      if (cancelled) return;
+
+      setVersions(rows.map((row) => ({
+        id: row.id,
+        parent_job_id: row.parent_job_id,
+        version: row.version,
+        is_current: row.is_current,
+        status: row.status as JobStatusValue,
+        emotion: row.emotion as Emotion,
+        style_chips: (row.style_chips ?? []) as StyleChip[],
+        scenes_edited: row.scenes_edited,
+        result_url: row.result_url ? signed.get(row.result_url) ?? row.result_url : null,
+        created_at: row.created_at,
+      })));
+
+      const settled = (status: string) => status === JobStatus.DONE || status === JobStatus.ERROR;
+      if (rows.some((row) => !settled(row.status))) {
+        timer = setTimeout(load, REFRESH_INTERVAL_MS);
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [rootId, generation]);
+
+  const reload = useCallback(() => setGeneration((g) => g + 1), []);
+
+  return { versions, reload };
+}
@@ -0,0 +1,82 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Profile, Refund } from '@/types/veosync';
+
+interface DbProfile {
+  id: string;
+  stripe_customer_id: string | null;
+  plan: string | null;
+  past_due_since: string | null;
+  grace_period_ends_at: string | null;
+  trial_ends_at: string | null;
+  last_refund: unknown;
+  created_at: string | null;
+}
+
+const PROFILE_COLUMNS =
+  'id, stripe_customer_id, plan, past_due_since, grace_period_ends_at, trial_ends_at, last_refund, created_at';
+
+function parseProfile(data: DbProfile): Profile {
+  return {
+    id: data.id,
+    stripe_customer_id: data.stripe_customer_id ?? undefined,
+    plan: (data.plan ?? 'free') as Profile['plan'],
+    past_due_since: data.past_due_since ?? undefined,
+    grace_period_ends_at: data.grace_period_ends_at ?? undefined,
+    trial_ends_at: data.trial_ends_at ?? undefined,
+    last_refund: (data.last_refund as Refund | null) ?? undefined,
+    created_at: data.created_at ?? '',
+  };
+}
+
+export function useProfile(userId: string | undefined) {
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!userId) {
+      setLoading(false);
+      return;
+    }
+
+    const fetchProfile = async () => {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select(PROFILE_COLUMNS)
+        .eq('id', userId)
+        .single();
+
+      if (!error && data) {
+        setProfile(parseProfile(data as DbProfile));
+      }
+      setLoading(false);
+    };
+
+    fetchProfile();
+
+    // Billing state is written by the Stripe webhook, so follow it live
+    const channel = supabase
+      .channel(`profile-changes-${userId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'profiles',
+          filter: `id=eq.${userId}`,
+        },
+        (payload) => {
+          if (payload.new) {
+            setProfile(parseProfile(payload.new as DbProfile));
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      channel.unsubscribe();
+    };
+  }, [userId]);
+
+  return { profile, loading };
+}
@@ -41,72 +41,387 @@ export type Database = {
         }
         Relationships: []
       }
+      job_steps: {
+        Row: {
+          attempts: number
+          completed_at: string | null
+          created_at: string | null
+          error: string | null
+          id: string
+          input: Json | null
+          job_id: string
+          output: Json | null
+          position: number
+          started_at: string | null
+          status: string
+          step_key: string
+          updated_at: string | null
+        }
+        Insert: {
+          attempts?: number
+          completed_at?: string | null
+          created_at?: string | null
+          error?: string | null
+          id?: string
+          input?: Json | null
+          job_id: string
+          output?: Json | null
+          position?: number
+          started_at?: string | null
+          status?: string
+          step_key: string
+          updated_at?: string | null
+        }
+        Update: {
+          attempts?: number
+          completed_at?: string | null
+          created_at?: string | null
+          error?: string | null
+          id?: string
+          input?: Json | null
+          job_id?: string
+          output?: Json | null
+          position?: number
+          started_at?: string | null
+          status?: string
+          step_key?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "job_steps_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      credit_balances: {
+        Row: {
+          balance: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          balance?: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          balance?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      credit_ledger: {
+        Row: {
+          amount: number
+          balance_after: number
+          created_at: string
+          id: string
+          job_id: string | null
+          kind: string
+          source: string | null
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          balance_after: number
+          created_at?: string
+          id?: string
+          job_id?: string | null
+          kind: string
+          source?: string | null
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          balance_after?: number
+          created_at?: string
+          id?: string
+          job_id?: string | null
+          kind?: string
+          source?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "credit_ledger_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      job_creations: {
+        Row: {
+          created_at: string
+          id: string
+          job_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          job_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          job_id?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       jobs: {
         Row: {
           assembly_manifest: Json | null
+          assembly_mode: string
+          audio_end_sec: number | null
+          audio_start_sec: number | null
+          beat_grid: Json | null
+          captions: Json | null
           created_at: string | null
+          credit_cost: number | null
+          credit_estimate: number | null
           emotion: string | null
           error: string | null
+          export_platforms: string[]
+          hero_segments: Json | null
           id: string
+          is_current: boolean
+          locked_until: string | null
           lyrics: string | null
+          outputs: Json | null
+          parent_job_id: string | null
+          platform: string
+          progress: Json | null
           provider_refs: Json | null
+          providers: Json | null
           result_url: string | null
+          root_job_id: string | null
+          selfie_focus: Json | null
           selfie_url: string | null
           song_url: string | null
           status: string | null
+          storyboard: Json | null
+          style_chips: string[]
           updated_at: string | null
           user_id: string
+          version: number
         }
         Insert: {
           assembly_manifest?: Json | null
+          assembly_mode?: string
+          audio_end_sec?: number | null
+          audio_start_sec?: number | null
+          beat_grid?: Json | null
+          captions?: Json | null
           created_at?: string | null
+          credit_cost?: number | null
+          credit_estimate?: number | null
           emotion?: string | null
           error?: string | null
+          export_platforms?: string[]
+          hero_segments?: Json | null
           id?: string
+          is_current?: boolean
+          locked_until?: string | null
           lyrics?: string | null
+          outputs?: Json | null
+          parent_job_id?: string | null
+          platform?: string
+          progress?: Json | null
           provider_refs?: Json | null
+          providers?: Json | null
           result_url?: string | null
+          root_job_id?: string | null
+          selfie_focus?: Json | null
           selfie_url?: string | null
           song_url?: string | null
           status?: string | null
+          storyboard?: Json | null
+          style_chips?: string[]
           updated_at?: string | null
           user_id: string
+          version?: number
         }
         Update: {
           assembly_manifest?: Json | null
+          assembly_mode?: string
+          audio_end_sec?: number | null
+          audio_start_sec?: number | null
+          beat_grid?: Json | null
+          captions?: Json | null
           created_at?: string | null
+          credit_cost?: number | null
+          credit_estimate?: number | null
           emotion?: string | null
           error?: string | null
+          export_platforms?: string[]
+          hero_segments?: Json | null
           id?: string
+          is_current?: boolean
+          locked_until?: string | null
           lyrics?: string | null
+          outputs?: Json | null
+          parent_job_id?: string | null
+          platform?: string
+          progress?: Json | null
           provider_refs?: Json | null
+          providers?: Json | null
           result_url?: string | null
+          root_job_id?: string | null
+          selfie_focus?: Json | null
           selfie_url?: string | null
           song_url?: string | null
           status?: string | null
+          storyboard?: Json | null
+          style_chips?: string[]
           updated_at?: string | null
           user_id?: string
+          version?: number
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "jobs_parent_job_id_fkey"
+            columns: ["parent_job_id"]
+            isOneToOne: false
+            referencedRelation: "jobs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "jobs_root_job_id_fkey"
+            columns: ["root_job_id"]
+            isOneToOne: false
+            referencedRelation: "jobs"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       profiles: {
         Row: {
+          billing_event_at: string | null
           created_at: string | null
+          grace_period_ends_at: string | null
           id: string
+          last_refund: Json | null
+          past_due_since: string | null
           plan: string | null
           stripe_customer_id: string | null
+          trial_ends_at: string | null
         }
         Insert: {
+          billing_event_at?: string | null
           created_at?: string | null
+          grace_period_ends_at?: string | null
           id: string
+          last_refund?: Json | null
+          past_due_since?: string | null
           plan?: string | null
           stripe_customer_id?: string | null
+          trial_ends_at?: string | null
         }
         Update: {
+          billing_event_at?: string | null
           created_at?: string | null
+          grace_period_ends_at?: string | null
           id?: string
+          last_refund?: Json | null
+          past_due_since?: string | null
           plan?: string | null
           stripe_customer_id?: string | null
+          trial_ends_at?: string | null
+        }
+        Relationships: []
+      }
+      shares: {
+        Row: {
+          created_at: string | null
+          expires_at: string | null
+          id: string
+          job_id: string
+          last_viewed_at: string | null
+          poster_path: string | null
+          revoked_at: string | null
+          user_id: string
+          view_count: number
+        }
+        Insert: {
+          created_at?: string | null
+          expires_at?: string | null
+          id?: string
+          job_id: string
+          last_viewed_at?: string | null
+          poster_path?: string | null
+          revoked_at?: string | null
+          user_id: string
+          view_count?: number
+        }
+        Update: {
+          created_at?: string | null
+          expires_at?: string | null
+          id?: string
+          job_id?: string
+          last_viewed_at?: string | null
+          poster_path?: string | null
+          revoked_at?: string | null
+          user_id?: string
+          view_count?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "shares_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stripe_events: {
+        Row: {
+          attempts: number
+          claimed_at: string | null
+          customer_id: string | null
+          error: string | null
+          id: string
+          payload: Json
+          processed_at: string | null
+          received_at: string
+          status: string
+          stripe_created_at: string
+          type: string
+        }
+        Insert: {
+          attempts?: number
+          claimed_at?: string | null
+          customer_id?: string | null
+          error?: string | null
+          id: string
+          payload: Json
+          processed_at?: string | null
+          received_at?: string
+          status?: string
+          stripe_created_at: string
+          type: string
+        }
+        Update: {
+          attempts?: number
+          claimed_at?: string | null
+          customer_id?: string | null
+          error?: string | null
+          id?: string
+          payload?: Json
+          processed_at?: string | null
+          received_at?: string
+          status?: string
+          stripe_created_at?: string
+          type?: string
         }
         Relationships: []
       }
@@ -115,6 +430,7 @@ export type Database = {
           current_period_end: string | null
           price_id: string | null
           status: string | null
+          stripe_event_at: string | null
           updated_at: string | null
           user_id: string
         }
@@ -122,6 +438,7 @@ export type Database = {
           current_period_end?: string | null
           price_id?: string | null
           status?: string | null
+          stripe_event_at?: string | null
           updated_at?: string | null
           user_id: string
         }
@@ -129,6 +446,7 @@ export type Database = {
           current_period_end?: string | null
           price_id?: string | null
           status?: string | null
+          stripe_event_at?: string | null
           updated_at?: string | null
           user_id?: string
         }
@@ -139,7 +457,58 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      add_credits: {
+        Args: { p_amount: number; p_source: string; p_user_id: string }
+        Returns: number
+      }
+      apply_subscription_event: {
+        Args: {
+          p_current_period_end: string
+          p_event_at: string
+          p_plan: string
+          p_price_id: string
+          p_status: string
+          p_user_id: string
+        }
+        Returns: boolean
+      }
+      grant_credits: {
+        Args: { p_allowance: number; p_source: string; p_user_id: string }
+        Returns: number
+      }
+      lock_credit_balance: {
+        Args: { p_user_id: string }
+        Returns: number
+      }
+      promote_job_version: {
+        Args: { p_job_id: string }
+        Returns: undefined
+      }
+      record_share_view: {
+        Args: { p_share_id: string }
+        Returns: undefined
+      }
+      record_job_creation: {
+        Args: {
+          p_daily_max: number
+          p_hourly_max: number
+          p_job_id: string
+          p_user_id: string
+        }
+        Returns: Json
+      }
+      release_job_credits: {
+        Args: { p_job_id: string; p_keep: number }
+        Returns: number
+      }
+      reserve_job_credits: {
+        Args: { p_amount: number; p_job_id: string; p_user_id: string }
+        Returns: boolean
+      }
+      set_client_assembly_status: {
+        Args: { p_job_id: string; p_status: string }
+        Returns: boolean
+      }
     }
     Enums: {
       [_ in never]: never
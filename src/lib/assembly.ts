@@ -0,0 +1,252 @@
+import { cuesWithin, toAss } from '@/lib/captions';
+import { XFADE_TRANSITIONS, resolveMotion, resolveTransition } from '@/lib/editing';
+import type { AspectRatio, AssemblyClip, AssemblyManifest, AssemblyUploadTarget, KenBurnsMotion } from '@/types/veosync';
+
+// Pure ffmpeg command building for an AssemblyManifest, shared by the in-browser
+// assembler (ffmpeg.wasm) and the server-side assembly worker (native ffmpeg).
+
+// Every clip is scaled, cropped and retimed to the output size before joining
+const OUTPUT_SIZES: Record<AspectRatio, { width: number; height: number }> = {
+  '9:16': { width: 720, height: 1280 },
+  '16:9': { width: 1280, height: 720 },
+  '1:1': { width: 720, height: 720 },
+  '4:5': { width: 720, height: 900 },
+};
+export const OUTPUT_FPS = 30;
+// Without a detected subject, crops keep the centre of the frame
+const CENTRE = { x: 0.5, y: 0.5 };
+
+// Used when the manifest doesn't say how long a clip should run
+const DEFAULT_CLIP_SEC = 3;
+
+/**
+ * Infer file extension from a URL or default to the provided fallback.
+ */
+export function getAudioExtension(url: string): string {
+  try {
+    const pathname = new URL(url).pathname;
+    const ext = pathname.split('.').pop()?.toLowerCase();
+    if (ext && ['mp3', 'wav', 'm4a', 'aac', 'mp4', 'ogg'].includes(ext)) {
+      return ext;
+    }
+  } catch {
+    // URL parsing failed, fall through
+  }
+  return 'mp3'; // safe default
+}
+
+export const seconds = (value: number) => value.toFixed(3);
+export const toFrames = (value: number) => Math.round(value * OUTPUT_FPS);
+
+interface ClipSlot {
+  startFrame: number;
+  frames: number;
+}
+
+/**
+ * Where each clip sits on the output timeline, in whole frames. Cuts come
+ * from start_time when process-job set it (beat-snapped), otherwise from the
+ * running total of durations; the last clip runs to the manifest target so
+ * the output is exactly target.duration_sec long.
+ */
+function clipSlots(manifest: AssemblyManifest): ClipSlot[] {
+  const totalFrames = toFrames(manifest.target.duration_sec);
+  let cursor = 0;
+  const starts = manifest.clips.map((clip) => {
+    const start = clip.start_time ?? cursor;
+    cursor = start + (clip.duration_sec || DEFAULT_CLIP_SEC);
+    return toFrames(start);
+  });
+
+  return starts.map((startFrame, index) => {
+    const endFrame = index + 1 < starts.length ? starts[index + 1] : totalFrames;
+    return { startFrame, frames: Math.max(1, endFrame - startFrame) };
+  });
+}
+
+// Lip-synced clips freeze rather than loop so the mouth never jumps back
+export const fillMode = (clip: AssemblyClip) =>
+  clip.fill ?? (clip.type === 'lipsync_clip' ? 'freeze' : 'loop');
+
+export const isImageClip = (clip: AssemblyClip) =>
+  clip.type === 'storyboard_image' || clip.type === 'selfie_image';
+
+// Stills are upscaled before zoompan so sub-pixel moves don't visibly jitter
+const KEN_BURNS_OVERSAMPLE = 2;
+
+interface Focus {
+  x: string;
+  y: string;
+}
+
+// zoompan expressions for each move; `p` is progress through the clip, 0..1.
+// Zooms and the still axis of pans centre on the focus; zoompan clamps to the frame.
+const KEN_BURNS_PATHS: Record<KenBurnsMotion, (p: string, zoom: string, f: Focus) => { z: string; x: string; y: string }> = {
+  'zoom-in': (p, zoom, f) => ({ z: `1+(${zoom}-1)*${p}`, x: `iw*${f.x}-iw/zoom/2`, y: `ih*${f.y}-ih/zoom/2` }),
+  'zoom-out': (p, zoom, f) => ({ z: `${zoom}-(${zoom}-1)*${p}`, x: `iw*${f.x}-iw/zoom/2`, y: `ih*${f.y}-ih/zoom/2` }),
+  'pan-left': (p, zoom, f) => ({ z: zoom, x: `(iw-iw/zoom)*(1-${p})`, y: `ih*${f.y}-ih/zoom/2` }),
+  'pan-right': (p, zoom, f) => ({ z: zoom, x: `(iw-iw/zoom)*${p}`, y: `ih*${f.y}-ih/zoom/2` }),
+  'pan-up': (p, zoom, f) => ({ z: zoom, x: `iw*${f.x}-iw/zoom/2`, y: `(ih-ih/zoom)*(1-${p})` }),
+  'pan-down': (p, zoom, f) => ({ z: zoom, x: `iw*${f.x}-iw/zoom/2`, y: `(ih-ih/zoom)*${p}` }),
+};
+
+// Crop to the target size around the clip's subject; crop clamps x/y to the frame
+const cropAround = (width: number, height: number, focus: Focus) =>
+  `crop=${width}:${height}:x=iw*${focus.x}-ow/2:y=ih*${focus.y}-oh/2`;
+
+/**
+ * Scale and crop a clip to fill the output frame, keeping its focus point in
+ * view (e.g. the selfie's face when a portrait clip becomes landscape).
+ * Stills get a Ken Burns move over `frames`.
+ */
+function normaliseClip(manifest: AssemblyManifest, index: number, frames: number, aspectRatio: AspectRatio): string[] {
+  const { width, height } = OUTPUT_SIZES[aspectRatio];
+  const clip = manifest.clips[index];
+  const point = clip.focus ?? CENTRE;
+  const focus = { x: point.x.toFixed(3), y: point.y.toFixed(3) };
+  if (!isImageClip(clip)) {
+    return [
+      `scale=${width}:${height}:force_original_aspect_ratio=increase`,
+      cropAround(width, height, focus),
+      'setsar=1',
+      `fps=${OUTPUT_FPS}`,
+      'format=yuv420p',
+    ];
+  }
+
+  const motion = resolveMotion(manifest, index);
+  const path = KEN_BURNS_PATHS[motion.type](`on/${Math.max(1, frames - 1)}`, motion.zoom.toFixed(3), focus);
+  const [overWidth, overHeight] = [width * KEN_BURNS_OVERSAMPLE, height * KEN_BURNS_OVERSAMPLE];
+  return [
+    `scale=${overWidth}:${overHeight}:force_original_aspect_ratio=increase`,
+    cropAround(overWidth, overHeight, focus),
+    'setsar=1',
+    `zoompan=z='${path.z}':x='${path.x}':y='${path.y}':d=${frames}:s=${width}x${height}:fps=${OUTPUT_FPS}`,
+    'format=yuv420p',
+  ];
+}
+
+/**
+ * Filter graph chains for the manifest's clips. Each clip is cut from its in
+ * point and filled (looped, frozen, or for stills panned) to cover its slot
+ * plus the transition into the next clip; transitions start on the cut so
+ * beat-snapped cuts stay on the beat. The last chain is left open for the
+ * caller to label.
+ */
+function buildFilterGraph(manifest: AssemblyManifest, aspectRatio: AspectRatio): string[] {
+  const slots = clipSlots(manifest);
+  const transitionFrames = manifest.clips.map((_, index) =>
+    Math.min(toFrames(resolveTransition(manifest, index).duration_sec), Math.floor(slots[index].frames / 2))
+  );
+
+  const chains = manifest.clips.map((clip, index) => {
+    const frames = slots[index].frames + (transitionFrames[index + 1] ?? 0);
+    const filters = [
+      ...normaliseClip(manifest, index, frames, aspectRatio),
+      `trim=start=${seconds(clip.in_sec ?? 0)}`,
+      'setpts=PTS-STARTPTS',
+      // Looping happens on the input; freezing pads with the last frame
+      `tpad=stop_mode=clone:stop_duration=${seconds(frames / OUTPUT_FPS)}`,
+      `trim=end_frame=${frames}`,
+      'setpts=PTS-STARTPTS',
+      `settb=1/${OUTPUT_FPS}[v${index}]`,
+    ];
+    return `[${index}:v]${filters.join(',')}`;
+  });
+
+  let joined = '[v0]';
+  for (let index = 1; index < manifest.clips.length; index++) {
+    const transition = resolveTransition(manifest, index);
+    const label = `[x${index}]`;
+    chains.push(
+      transition.type === 'cut' || transitionFrames[index] === 0
+        ? `${joined}[v${index}]concat=n=2:v=1:a=0,settb=1/${OUTPUT_FPS}${label}`
+        : `${joined}[v${index}]xfade=transition=${XFADE_TRANSITIONS[transition.type]}:duration=${seconds(transitionFrames[index] / OUTPUT_FPS)}:offset=${seconds(slots[index].startFrame / OUTPUT_FPS)}${label}`
+    );
+    joined = label;
+  }
+
+  // Open the final chain with a passthrough so the caller can append filters
+  chains.push(`${joined}null`);
+  return chains;
+}
+
+export interface AssemblyRender {
+  aspect_ratio: AspectRatio;
+  upload_target: AssemblyUploadTarget;
+}
+
+// Every ratio the manifest asks for, the job's main one first
+export function assemblyRenders(manifest: AssemblyManifest): AssemblyRender[] {
+  return [
+    { aspect_ratio: manifest.target.aspect_ratio, upload_target: manifest.upload_target },
+    ...(manifest.exports ?? []),
+  ];
+}
+
+// Working-directory file names the commands below expect the inputs under
+export const clipFileName = (clip: AssemblyClip, index: number) =>
+  `clip_${index}.${isImageClip(clip) ? 'img' : 'mp4'}`;
+
+export const audioFileName = (manifest: AssemblyManifest) =>
+  `audio.${getAudioExtension(manifest.audio_url)}`;
+
+export const CAPTIONS_FILE = 'captions.ass';
+
+// ASS script for the rendered part of the song, or null when there is nothing to burn in
+export function assemblyCaptions(manifest: AssemblyManifest, aspectRatio: AspectRatio): string | null {
+  if (!manifest.captions) return null;
+  const cues = cuesWithin(manifest.captions.cues, manifest.audio_window?.start_sec ?? 0, manifest.target.duration_sec);
+  return cues.length > 0 ? toAss(cues, manifest.captions.style, aspectRatio) : null;
+}
+
+/**
+ * ffmpeg arguments rendering the manifest at one aspect ratio into
+ * `outputFile`. Inputs are read from clipFileName/audioFileName; when
+ * `fontsDir` is set, CAPTIONS_FILE is burned in with fonts from it.
+ */
+export function buildAssemblyArgs(
+  manifest: AssemblyManifest,
+  aspectRatio: AspectRatio,
+  outputFile: string,
+  fontsDir: string | null
+): string[] {
+  // Only the selected excerpt is muxed, so the video starts at its first second
+  const audioStart = manifest.audio_window?.start_sec ?? 0;
+  const audioInput = manifest.audio_window
+    ? [
+        '-ss', String(audioStart),
+        '-t', String(manifest.audio_window.end_sec - audioStart),
+        '-i', audioFileName(manifest),
+      ]
+    : ['-i', audioFileName(manifest)];
+
+  // Normalise every clip, then join them with the edit's transitions
+  const filterGraph = buildFilterGraph(manifest, aspectRatio);
+  filterGraph[filterGraph.length - 1] += fontsDir
+    ? `,ass=${CAPTIONS_FILE}:fontsdir=${fontsDir}[vout]`
+    : '[vout]';
+
+  // Pad short audio with silence so both streams end on the target frame
+  const outputSeconds = seconds(toFrames(manifest.target.duration_sec) / OUTPUT_FPS);
+  filterGraph.push(`[${manifest.clips.length}:a]apad=whole_dur=${outputSeconds}[aout]`);
+
+  return [
+    ...manifest.clips.flatMap((clip, i) => [
+      // Stills are a single frame that zoompan stretches over the slot
+      ...(fillMode(clip) === 'loop' && !isImageClip(clip) ? ['-stream_loop', '-1'] : []),
+      '-i', clipFileName(clip, i),
+    ]),
+    ...audioInput,
+    '-filter_complex', filterGraph.join(';'),
+    '-map', '[vout]',
+    '-map', '[aout]',
+    '-r', String(OUTPUT_FPS),
+    '-c:v', 'libx264',
+    '-pix_fmt', 'yuv420p',
+    '-c:a', 'aac',
+    '-t', outputSeconds,
+    '-y',
+    outputFile,
+  ];
+}
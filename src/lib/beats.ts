@@ -0,0 +1,141 @@
+import type { BeatGrid } from '@/types/veosync';
+
+// Analysis resolution: ~86 onset frames per second at 44.1kHz
+const HOP_SIZE = 512;
+const FRAME_SIZE = 1024;
+const TEMPO_RANGE_BPM = { MIN: 70, MAX: 180 };
+// Listeners hear most pop/electronic music around this tempo; breaks octave ties
+const TEMPO_PRIOR_BPM = 120;
+const BEATS_PER_BAR = 4;
+
+const round = (seconds: number) => Math.round(seconds * 1000) / 1000;
+
+// Half-wave rectified rise in log energy, with the local average removed
+function onsetEnvelope(buffer: AudioBuffer): Float32Array {
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, i) => buffer.getChannelData(i));
+  const frameCount = Math.max(0, Math.floor((buffer.length - FRAME_SIZE) / HOP_SIZE));
+  const energy = new Float32Array(frameCount);
+
+  for (let frame = 0; frame < frameCount; frame++) {
+    let sum = 0;
+    const from = frame * HOP_SIZE;
+    for (const data of channels) {
+      for (let i = from; i < from + FRAME_SIZE; i++) {
+        sum += data[i] * data[i];
+      }
+    }
+    energy[frame] = Math.log(1e-6 + sum / (FRAME_SIZE * channels.length));
+  }
+
+  const flux = new Float32Array(frameCount);
+  for (let frame = 1; frame < frameCount; frame++) {
+    flux[frame] = Math.max(0, energy[frame] - energy[frame - 1]);
+  }
+
+  const radius = Math.round((0.25 * buffer.sampleRate) / HOP_SIZE);
+  const envelope = new Float32Array(frameCount);
+  let windowSum = 0;
+  for (let frame = 0; frame < frameCount + radius; frame++) {
+    if (frame < frameCount) windowSum += flux[frame];
+    if (frame - 2 * radius - 1 >= 0) windowSum -= flux[frame - 2 * radius - 1];
+    const center = frame - radius;
+    if (center >= 0 && center < frameCount) {
+      const count = Math.min(frame, frameCount - 1) - Math.max(0, frame - 2 * radius) + 1;
+      envelope[center] = Math.max(0, flux[center] - windowSum / count);
+    }
+  }
+  return envelope;
+}
+
+// Score of a pulse train with the given period and phase, in frames
+function pulseScore(envelope: Float32Array, period: number, phase: number): number {
+  let score = 0;
+  for (let t = phase; t < envelope.length; t += period) {
+    score += envelope[Math.round(t)] ?? 0;
+  }
+  return score;
+}
+
+/**
+ * Estimate a constant-tempo beat grid for a decoded song: tempo from the
+ * autocorrelation of the onset envelope, beat phase from the strongest pulse
+ * train, and downbeats from the strongest of the four bar offsets.
+ * Times are seconds from the start of the song.
+ */
+export function detectBeats(buffer: AudioBuffer): BeatGrid | null {
+  const envelope = onsetEnvelope(buffer);
+  const framesPerSecond = buffer.sampleRate / HOP_SIZE;
+  const minLag = Math.floor((60 / TEMPO_RANGE_BPM.MAX) * framesPerSecond);
+  const maxLag = Math.ceil((60 / TEMPO_RANGE_BPM.MIN) * framesPerSecond);
+  if (envelope.length < maxLag * 4) return null;
+
+  const autocorrelation = (lag: number) => {
+    let sum = 0;
+    for (let i = lag; i < envelope.length; i++) {
+      sum += envelope[i] * envelope[i - lag];
+    }
+    return sum;
+  };
+
+  let zeroLag = 0;
+  for (const value of envelope) zeroLag += value * value;
+  if (zeroLag === 0) return null;
+
+  // Log-normal weighting around the prior tempo
+  const tempoPrior = (lag: number) => {
+    const bpm = (60 * framesPerSecond) / lag;
+    return Math.exp(-0.5 * Math.pow(Math.log2(bpm / TEMPO_PRIOR_BPM) / 0.6, 2));
+  };
+
+  const scores: number[] = [];
+  let bestLag = minLag;
+  let bestWeighted = -1;
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    scores[lag] = autocorrelation(lag);
+    const weighted = scores[lag] * tempoPrior(lag);
+    if (weighted > bestWeighted) {
+      bestWeighted = weighted;
+      bestLag = lag;
+    }
+  }
+
+  // Parabolic interpolation for a sub-frame period
+  let period = bestLag;
+  if (bestLag > minLag && bestLag < maxLag) {
+    const [a, b, c] = [scores[bestLag - 1], scores[bestLag], scores[bestLag + 1]];
+    const denominator = a - 2 * b + c;
+    if (denominator !== 0) period = bestLag + (0.5 * (a - c)) / denominator;
+  }
+
+  let bestPhase = 0;
+  let bestPhaseScore = -1;
+  for (let phase = 0; phase < period; phase++) {
+    const score = pulseScore(envelope, period, phase);
+    if (score > bestPhaseScore) {
+      bestPhaseScore = score;
+      bestPhase = phase;
+    }
+  }
+
+  const beats: number[] = [];
+  for (let t = bestPhase; t < envelope.length; t += period) {
+    beats.push(round((t * HOP_SIZE + FRAME_SIZE / 2) / buffer.sampleRate));
+  }
+
+  let barOffset = 0;
+  let bestBarScore = -1;
+  for (let offset = 0; offset < BEATS_PER_BAR; offset++) {
+    const score = pulseScore(envelope, period * BEATS_PER_BAR, bestPhase + offset * period);
+    if (score > bestBarScore) {
+      bestBarScore = score;
+      barOffset = offset;
+    }
+  }
+
+  return {
+    bpm: Math.round(((60 * framesPerSecond) / period) * 10) / 10,
+    beats,
+    downbeats: beats.filter((_, index) => index % BEATS_PER_BAR === barOffset),
+    confidence: Math.round((scores[bestLag] / zeroLag) * 100) / 100,
+  };
+}
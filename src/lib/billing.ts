@@ -0,0 +1,119 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { PLAN_CATALOG, Plan, type PlanType } from '@/lib/constants';
+import { formatCredits } from '@/lib/credits';
+import type { PlanChangePreview, Profile, Refund } from '@/types/veosync';
+
+const DAY_MS = 86400 * 1000;
+
+export interface BillingNotice {
+  kind: 'payment_failed' | 'grace_ended' | 'trial_ending';
+  title: string;
+  message: string;
+}
+
+const formatDay = (iso: string) =>
+  new Date(iso).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+/**
+ * What the user needs to do about billing, if anything. A failed renewal
+ * outranks a trial ending, since it's the one that switches features off.
+ */
+export function billingNotice(profile: Profile | null, now = Date.now()): BillingNotice | null {
+  if (!profile) return null;
+
+  if (profile.grace_period_ends_at) {
+    const endsAt = Date.parse(profile.grace_period_ends_at);
+    if (endsAt <= now) {
+      return {
+        kind: 'grace_ended',
+        title: 'Paid features paused',
+        message: 'We couldn\'t charge your card. Update it to pick up where you left off.',
+      };
+    }
+    const days = Math.ceil((endsAt - now) / DAY_MS);
+    return {
+      kind: 'payment_failed',
+      title: 'Payment failed',
+      message: `Update your card by ${formatDay(profile.grace_period_ends_at)} to keep your plan (${days} ${days === 1 ? 'day' : 'days'} left).`,
+    };
+  }
+
+  if (profile.trial_ends_at && Date.parse(profile.trial_ends_at) > now) {
+    return {
+      kind: 'trial_ending',
+      title: 'Trial ending',
+      message: `Your trial ends ${formatDay(profile.trial_ends_at)}. Add a card to keep your plan.`,
+    };
+  }
+
+  return null;
+}
+
+export const formatAmount = (amount: number, currency: string) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: currency.toUpperCase() }).format(amount / 100);
+
+export const formatRefund = (refund: Refund) =>
+  `${formatAmount(refund.amount, refund.currency)} ${
+    refund.full ? 'refunded' : 'partially refunded'
+  } on ${formatDay(refund.refunded_at)}`;
+
+export type PlanTier = typeof PLAN_CATALOG[number];
+
+export const planTier = (plan: PlanType | null | undefined): PlanTier =>
+  PLAN_CATALOG.find((tier) => tier.id === plan) ?? PLAN_CATALOG[0];
+
+// The plan limits apply to: a failed renewal keeps its plan until the grace
+// period runs out (mirrors effectivePlan in supabase/functions/_shared/plans.ts)
+export function effectivePlan(profile: Profile | null, now = Date.now()): PlanType {
+  if (!profile) return Plan.FREE;
+  const graceEnded = profile.grace_period_ends_at !== undefined && Date.parse(profile.grace_period_ends_at) < now;
+  return graceEnded ? Plan.FREE : planTier(profile.plan).id;
+}
+
+// Entitlements as they read on a plan card
+export const planFeatures = (tier: PlanTier) => [
+  `${formatCredits(tier.monthly_credits)} credits a month`,
+  `Up to ${tier.max_duration_sec}-second videos`,
+  `${tier.resolution === '4k' ? '4K' : tier.resolution} exports`,
+  tier.priority > 1 ? 'Front-of-queue rendering' : tier.priority > 0 ? 'Priority processing' : 'Standard processing',
+];
+
+// The error the billing functions put in the body, rather than the generic non-2xx message
+async function functionError(error: unknown): Promise<Error> {
+  if (error instanceof FunctionsHttpError) {
+    const body = await (error.context as Response).json().catch(() => null);
+    if (body?.error) return new Error(body.error);
+  }
+  return error instanceof Error ? error : new Error(String(error));
+}
+
+// Stripe Checkout for someone without a subscription; resolves to the URL to send them to
+export async function startCheckout(plan: PlanType): Promise<string> {
+  const { data, error } = await supabase.functions.invoke<{ url: string }>('create-checkout-session', {
+    body: { plan },
+  });
+  if (error || !data?.url) throw await functionError(error ?? new Error('Checkout did not return a URL'));
+  return data.url;
+}
+
+export async function previewPlanChange(plan: PlanType): Promise<PlanChangePreview> {
+  const { data, error } = await supabase.functions.invoke<PlanChangePreview>('change-plan', {
+    body: { plan, preview: true },
+  });
+  if (error || !data) throw await functionError(error ?? new Error('Failed to price the plan change'));
+  return data;
+}
+
+/**
+ * Switch tiers at the previewed price. The new plan shows up on the profile
+ * once Stripe's webhook confirms it; resolves true when an upgrade is held
+ * back waiting on the card (e.g. a bank asking for authentication).
+ */
+export async function changePlan(preview: PlanChangePreview): Promise<boolean> {
+  const { data, error } = await supabase.functions.invoke<{ pending: boolean }>('change-plan', {
+    body: { plan: preview.plan, proration_date: preview.proration_date },
+  });
+  if (error) throw await functionError(error);
+  return Boolean(data?.pending);
+}
@@ -0,0 +1,331 @@
+import type { AspectRatio, CaptionCue, CaptionWord, Emotion } from '@/types/veosync';
+
+type CaptionAnimation = 'pop' | 'fade' | 'word' | 'drift' | 'karaoke' | 'glitch';
+
+interface CaptionStyle {
+  animation: CaptionAnimation;
+  fontSize: number;
+  // #RRGGBB; for karaoke, primary is the sung colour and secondary the unsung one
+  primary: string;
+  secondary: string;
+  outline: string;
+  outlineWidth: number;
+  shadow: number;
+  spacing: number;
+  uppercase: boolean;
+  // Numpad position: 2 bottom, 5 middle, 8 top
+  alignment: 2 | 5 | 8;
+  marginV: number;
+}
+
+export const CAPTION_FONT = {
+  family: 'Bebas Neue',
+  file: 'BebasNeue-Regular.ttf',
+  // Shipped in public/fonts (OFL, see OFL.txt there) and served from our own origin
+  url: '/fonts/BebasNeue-Regular.ttf',
+  // SHA-256 of the file above; update together with it
+  sha256: 'gw6hhqz/wjFu0aTkIxkka6O0awTjOiEQeSSb+QEZPwQ=',
+} as const;
+
+export const CAPTION_STYLES: Record<Emotion, CaptionStyle> = {
+  unfiltered: {
+    animation: 'pop',
+    fontSize: 110,
+    primary: '#FFFFFF',
+    secondary: '#FFFFFF',
+    outline: '#000000',
+    outlineWidth: 5,
+    shadow: 0,
+    spacing: 2,
+    uppercase: true,
+    alignment: 2,
+    marginV: 280,
+  },
+  vulnerable: {
+    animation: 'fade',
+    fontSize: 88,
+    primary: '#FDE2F3',
+    secondary: '#FDE2F3',
+    outline: '#3A1F33',
+    outlineWidth: 2,
+    shadow: 2,
+    spacing: 1,
+    uppercase: false,
+    alignment: 2,
+    marginV: 320,
+  },
+  untouchable: {
+    animation: 'word',
+    fontSize: 120,
+    primary: '#DFF6FF',
+    secondary: '#DFF6FF',
+    outline: '#0B1A2B',
+    outlineWidth: 4,
+    shadow: 0,
+    spacing: 8,
+    uppercase: true,
+    alignment: 5,
+    marginV: 0,
+  },
+  numb: {
+    animation: 'drift',
+    fontSize: 84,
+    primary: '#B8B8B8',
+    secondary: '#B8B8B8',
+    outline: '#1A1A1A',
+    outlineWidth: 1,
+    shadow: 0,
+    spacing: 2,
+    uppercase: false,
+    alignment: 2,
+    marginV: 300,
+  },
+  ascending: {
+    animation: 'karaoke',
+    fontSize: 104,
+    primary: '#FFD54A',
+    secondary: '#FFFFFF',
+    outline: '#2B1A00',
+    outlineWidth: 4,
+    shadow: 2,
+    spacing: 2,
+    uppercase: true,
+    alignment: 2,
+    marginV: 280,
+  },
+  unhinged: {
+    animation: 'glitch',
+    fontSize: 116,
+    primary: '#FFFFFF',
+    secondary: '#FF2E63',
+    outline: '#000000',
+    outlineWidth: 3,
+    shadow: 4,
+    spacing: 3,
+    uppercase: true,
+    alignment: 5,
+    marginV: 0,
+  },
+};
+
+// Coordinate space for ASS scripts per output ratio; libass scales it to the actual video size
+const PLAY_RES: Record<AspectRatio, { width: number; height: number }> = {
+  '9:16': { width: 1080, height: 1920 },
+  '16:9': { width: 1920, height: 1080 },
+  '1:1': { width: 1080, height: 1080 },
+  '4:5': { width: 1080, height: 1350 },
+};
+
+// Styles are tuned for 9:16; shorter frames shrink text, but not so far that it stops reading as a hook
+const MIN_STYLE_SCALE = 0.7;
+
+const pad = (value: number | string, length = 2) => String(value).padStart(length, '0');
+
+function splitTime(seconds: number) {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  return {
+    h: Math.floor(totalMs / 3600000),
+    m: Math.floor((totalMs % 3600000) / 60000),
+    s: Math.floor((totalMs % 60000) / 1000),
+    ms: totalMs % 1000,
+  };
+}
+
+function srtTime(seconds: number): string {
+  const { h, m, s, ms } = splitTime(seconds);
+  return `${pad(h)}:${pad(m)}:${pad(s)},${pad(ms, 3)}`;
+}
+
+function vttTime(seconds: number): string {
+  const { h, m, s, ms } = splitTime(seconds);
+  return `${pad(h)}:${pad(m)}:${pad(s)}.${pad(ms, 3)}`;
+}
+
+function assTime(seconds: number): string {
+  const { h, m, s, ms } = splitTime(seconds);
+  return `${h}:${pad(m)}:${pad(s)}.${pad(Math.floor(ms / 10))}`;
+}
+
+// #RRGGBB -> &HAABBGGRR
+function assColour(hex: string, alpha = 0): string {
+  const rgb = hex.replace('#', '');
+  return `&H${pad(alpha.toString(16).toUpperCase())}${rgb.slice(4, 6)}${rgb.slice(2, 4)}${rgb.slice(0, 2)}`.toUpperCase();
+}
+
+// Braces and backslashes would be read as override tags
+const escapeAss = (text: string) => text.replace(/[{}]/g, '').replace(/\\/g, '/');
+
+export function toSrt(cues: CaptionCue[]): string {
+  return cues
+    .map((cue, index) => `${index + 1}\n${srtTime(cue.start)} --> ${srtTime(cue.end)}\n${cue.text}\n`)
+    .join('\n');
+}
+
+export function toWebVtt(cues: CaptionCue[]): string {
+  const body = cues
+    .map((cue) => `${vttTime(cue.start)} --> ${vttTime(cue.end)}\n${cue.text}\n`)
+    .join('\n');
+  return `WEBVTT\n\n${body}`;
+}
+
+function scaleStyle(style: CaptionStyle, height: number): CaptionStyle {
+  const scale = Math.min(1, Math.max(MIN_STYLE_SCALE, height / PLAY_RES['9:16'].height));
+  if (scale === 1) return style;
+  return {
+    ...style,
+    fontSize: Math.round(style.fontSize * scale),
+    outlineWidth: Math.max(1, Math.round(style.outlineWidth * scale)),
+    shadow: Math.round(style.shadow * scale),
+    spacing: Math.round(style.spacing * scale),
+    marginV: Math.round(style.marginV * scale),
+  };
+}
+
+function animateCue(cue: CaptionCue, style: CaptionStyle, cueIndex: number): string {
+  const ms = (seconds: number) => Math.max(0, Math.round((seconds - cue.start) * 1000));
+  const words = cue.words.length > 0 ? cue.words : [{ text: cue.text, start: cue.start, end: cue.end }];
+  const wordText = (word: CaptionWord) => escapeAss(style.uppercase ? word.text.toUpperCase() : word.text);
+  const lineText = words.map(wordText).join(' ');
+  const duration = ms(cue.end);
+
+  switch (style.animation) {
+    case 'pop':
+      return `{\\fad(80,120)\\fscx80\\fscy80\\t(0,120,\\fscx100\\fscy100)}${lineText}`;
+    case 'fade':
+      return `{\\fad(400,400)}${lineText}`;
+    case 'drift':
+      return `{\\fad(600,600)\\t(0,${duration},\\fsp${style.spacing + 6})}${lineText}`;
+    case 'word':
+      // Reveal each word as it is sung
+      return words
+        .map((word) => {
+          const at = ms(word.start);
+          return `{\\alpha&HFF&\\fscx120\\fscy120\\t(${at},${at + 1},\\alpha&H00&)\\t(${at},${at + 150},\\fscx100\\fscy100)}${wordText(word)}`;
+        })
+        .join(' ');
+    case 'karaoke': {
+      // \kf fills each word from secondary to primary colour while it is sung
+      let cursor = cue.start;
+      return words
+        .map((word) => {
+          const gap = Math.max(0, Math.round((word.start - cursor) * 100));
+          const fill = Math.max(1, Math.round((word.end - word.start) * 100));
+          cursor = word.end;
+          return `${gap > 0 ? `{\\k${gap}}` : ''}{\\kf${fill}}${wordText(word)}`;
+        })
+        .join(' ');
+    }
+    case 'glitch': {
+      // Shake the line and flash each word on its onset; offsets are deterministic per cue
+      const tilt = (cueIndex % 2 === 0 ? 1 : -1) * (2 + (cueIndex % 3));
+      const shake = `\\t(0,60,\\frz${tilt})\\t(60,120,\\frz${-tilt})\\t(120,180,\\frz0)`;
+      const flashed = words
+        .map((word) => {
+          const at = ms(word.start);
+          return `{\\t(${at},${at + 1},\\1c${assColour(style.secondary)}&\\fax0.25)\\t(${at + 90},${at + 91},\\1c${assColour(style.primary)}&\\fax0)}${wordText(word)}`;
+        })
+        .join(' ');
+      return `{\\fad(40,40)${shake}\\xshad${style.shadow}\\yshad${-Math.ceil(style.shadow / 2)}}${flashed}`;
+    }
+  }
+}
+
+// Advanced SubStation script with the emotion's caption style, for burning in with ffmpeg
+export function toAss(cues: CaptionCue[], emotion: Emotion, aspectRatio: AspectRatio = '9:16'): string {
+  const playRes = PLAY_RES[aspectRatio] ?? PLAY_RES['9:16'];
+  const style = scaleStyle(CAPTION_STYLES[emotion] ?? CAPTION_STYLES.unfiltered, playRes.height);
+  // Glitch uses a cyan shadow for a chromatic split; others use a dark drop shadow
+  const backColour = style.animation === 'glitch' ? assColour('#00F0FF') : assColour('#000000', 0x80);
+
+  const header = [
+    '[Script Info]',
+    'ScriptType: v4.00+',
+    `PlayResX: ${playRes.width}`,
+    `PlayResY: ${playRes.height}`,
+    'WrapStyle: 0',
+    'ScaledBorderAndShadow: yes',
+    '',
+    '[V4+ Styles]',
+    'Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding',
+    [
+      'Style: Lyric',
+      CAPTION_FONT.family,
+      style.fontSize,
+      assColour(style.primary),
+      assColour(style.secondary),
+      assColour(style.outline),
+      backColour,
+      0, 0, 0, 0, 100, 100,
+      style.spacing,
+      0, 1,
+      style.outlineWidth,
+      style.shadow,
+      style.alignment,
+      80, 80,
+      style.marginV,
+      1,
+    ].join(','),
+    '',
+    '[Events]',
+    'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+  ];
+
+  const events = cues.map(
+    (cue, index) => `Dialogue: 0,${assTime(cue.start)},${assTime(cue.end)},Lyric,,0,0,0,,${animateCue(cue, style, index)}`
+  );
+
+  return [...header, ...events, ''].join('\n');
+}
+
+// Move a cue to new bounds, keeping each word's relative position inside it
+export function retimeCue(cue: CaptionCue, start: number, end: number): CaptionCue {
+  const round = (seconds: number) => Math.round(seconds * 100) / 100;
+  const oldSpan = cue.end - cue.start;
+
+  // Bounds the editor hasn't finished fixing: keep them, retime words once valid
+  if (end <= start) {
+    return { ...cue, start: round(start), end: round(end) };
+  }
+
+  const weights = cue.words.map((word) => word.text.length + 1);
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  let cursor = start;
+
+  return {
+    ...cue,
+    start: round(start),
+    end: round(end),
+    words: cue.words.map((word, index) => {
+      if (oldSpan > 0) {
+        const scale = (end - start) / oldSpan;
+        return {
+          ...word,
+          start: round(start + (word.start - cue.start) * scale),
+          end: round(start + (word.end - cue.start) * scale),
+        };
+      }
+      // No usable previous timing: spread words by length
+      const span = ((end - start) * weights[index]) / totalWeight;
+      const spread = { ...word, start: round(cursor), end: round(cursor + span) };
+      cursor += span;
+      return spread;
+    }),
+  };
+}
+
+// Cues inside the rendered part of the song, re-based so the video starts at 0
+export function cuesWithin(cues: CaptionCue[], startSec: number, durationSec: number): CaptionCue[] {
+  const endSec = startSec + durationSec;
+  const shift = (seconds: number) => Math.min(durationSec, Math.max(0, seconds - startSec));
+
+  return cues
+    .filter((cue) => cue.end > startSec && cue.start < endSec)
+    .map((cue) => ({
+      ...cue,
+      start: shift(cue.start),
+      end: shift(cue.end),
+      words: cue.words
+        .filter((word) => word.end > startSec && word.start < endSec)
+        .map((word) => ({ ...word, start: shift(word.start), end: shift(word.end) })),
+    }));
+}
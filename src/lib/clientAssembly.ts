@@ -0,0 +1,157 @@
+import { supabase } from '@/integrations/supabase/client';
+import { assembleVideo } from '@/lib/ffmpeg';
+import { URL_EXPIRY } from '@/lib/constants';
+import { logger } from '@/lib/logger';
+import type { AssemblyProgress, Job } from '@/types/veosync';
+
+export type ClientAssemblyStatus = 'running' | 'cancelled' | 'failed' | 'done';
+
+export interface ClientAssembly {
+  jobId: string;
+  status: ClientAssemblyStatus;
+  progress: AssemblyProgress;
+}
+
+interface AssemblyTask {
+  state: ClientAssembly;
+  controller: AbortController;
+}
+
+/**
+ * In-browser assemblies, keyed by job id. They live at module level rather
+ * than in a component so an assembly keeps running (and can be picked up
+ * again) while the user moves between routes.
+ */
+const tasks = new Map<string, AssemblyTask>();
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach((listener) => listener());
+
+function update(task: AssemblyTask, changes: Partial<ClientAssembly>) {
+  task.state = { ...task.state, ...changes };
+  notify();
+}
+
+export function subscribeClientAssembly(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function getClientAssembly(jobId: string | null): ClientAssembly | null {
+  return (jobId && tasks.get(jobId)?.state) || null;
+}
+
+// Job whose assembly is still running, so a remounted page can reattach to it
+export function activeClientAssembly(): string | null {
+  for (const [jobId, task] of tasks) {
+    if (task.state.status === 'running') return jobId;
+  }
+  return null;
+}
+
+// Closing the tab kills ffmpeg.wasm, so ask first while anything is still rendering.
+// Only registered while an assembly runs, so an idle tab closes without a prompt
+const warnBeforeUnload = (event: BeforeUnloadEvent) => event.preventDefault();
+
+// The status moves the browser may make on its own job; everything else is the pipeline's
+const setAssemblyStatus = (jobId: string, status: 'assembling' | 'ready_for_assembly' | 'error') =>
+  supabase.rpc('set_client_assembly_status', { p_job_id: jobId, p_status: status });
+
+async function run(job: Job, task: AssemblyTask) {
+  const { signal } = task.controller;
+  const log = logger.withJob(job.id, job.user_id);
+  window.addEventListener('beforeunload', warnBeforeUnload);
+
+  try {
+    await setAssemblyStatus(job.id, 'assembling');
+
+    const videos = await assembleVideo(job.assembly_manifest!, {
+      signal,
+      onProgress: (progress) => update(task, { progress }),
+    });
+
+    // The first render is the job's main ratio; the rest are extra exports
+    const urls: string[] = [];
+    for (const [index, video] of videos.entries()) {
+      signal.throwIfAborted();
+      update(task, { progress: { phase: 'upload', progress: index / videos.length } });
+
+      const { bucket, path } = video.upload_target;
+      const { error: uploadError } = await supabase.storage
+        .from(bucket)
+        .upload(path, video.blob, { contentType: 'video/mp4', upsert: true });
+      if (uploadError) throw uploadError;
+
+      const { data: signed, error: signError } = await supabase.storage
+        .from(bucket)
+        .createSignedUrl(path, URL_EXPIRY.OUTPUT);
+      if (signError || !signed) throw signError ?? new Error('Failed to sign output URL');
+      urls.push(signed.signedUrl);
+    }
+    signal.throwIfAborted();
+    update(task, { progress: { phase: 'upload', progress: 1 } });
+
+    const outputs = Object.fromEntries(
+      videos.slice(1).map((video, index) => [video.aspect_ratio, urls[index + 1]])
+    );
+    const { error: finalizeError } = await supabase.functions.invoke('finalize-job', {
+      body: { job_id: job.id, final_video_url: urls[0], outputs },
+    });
+    if (finalizeError) throw finalizeError;
+
+    update(task, { status: 'done' });
+  } catch (error) {
+    if (signal.aborted) {
+      // Hand the job back so it can be assembled again later
+      log.info('Assembly cancelled');
+      await setAssemblyStatus(job.id, 'ready_for_assembly');
+      update(task, { status: 'cancelled' });
+      return;
+    }
+
+    log.error('Assembly failed', { error: error instanceof Error ? error.message : String(error) });
+    await setAssemblyStatus(job.id, 'error');
+    update(task, { status: 'failed' });
+  } finally {
+    if (!activeClientAssembly()) window.removeEventListener('beforeunload', warnBeforeUnload);
+  }
+}
+
+/**
+ * Assemble a ready job in this tab, download through upload and finalize.
+ * Does nothing if the job already has an assembly here, including a
+ * cancelled one; use restartClientAssembly to run it again.
+ */
+export function startClientAssembly(job: Job): void {
+  if (tasks.has(job.id) || !job.assembly_manifest) return;
+
+  const task: AssemblyTask = {
+    state: { jobId: job.id, status: 'running', progress: { phase: 'download', progress: 0 } },
+    controller: new AbortController(),
+  };
+  tasks.set(job.id, task);
+  notify();
+  run(job, task);
+}
+
+export function cancelClientAssembly(jobId: string): void {
+  const task = tasks.get(jobId);
+  if (task?.state.status === 'running') {
+    task.controller.abort(new DOMException('Assembly cancelled', 'AbortError'));
+  }
+}
+
+export function restartClientAssembly(job: Job): void {
+  if (tasks.get(job.id)?.state.status === 'running') return;
+  clearClientAssembly(job.id);
+  startClientAssembly(job);
+}
+
+// Forget a job's assembly (cancelling it if running), e.g. before it is regenerated
+export function clearClientAssembly(jobId: string): void {
+  cancelClientAssembly(jobId);
+  tasks.delete(jobId);
+  notify();
+}
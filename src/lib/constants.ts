@@ -1,6 +1,7 @@
 // Job status constants (aligned with veosync.ts JobStatus type)
 export const JobStatus = {
   QUEUED: 'queued',
+  STORYBOARD_READY: 'storyboard_ready',
   RUNNING: 'running',
   READY_FOR_ASSEMBLY: 'ready_for_assembly',
   ASSEMBLING: 'assembling',
@@ -37,23 +38,141 @@ export type SubscriptionStatusType = typeof SubscriptionStatus[keyof typeof Subs
 export const Plan = {
   FREE: 'free',
   CREATOR: 'creator',
+  PRO: 'pro',
 } as const;
 
 export type PlanType = typeof Plan[keyof typeof Plan];
 
+// What each tier unlocks, cheapest first (mirrored in supabase/functions/_shared/plans.ts)
+export const PLAN_CATALOG = [
+  {
+    id: Plan.FREE,
+    label: 'Free',
+    price: '$0',
+    max_duration_sec: 15,
+    resolution: '720p',
+    priority: 0,
+    monthly_credits: 100,
+    concurrent_jobs: 1,
+  },
+  {
+    id: Plan.CREATOR,
+    label: 'Creator',
+    price: '$9.99/month',
+    max_duration_sec: 30,
+    resolution: '1080p',
+    priority: 1,
+    monthly_credits: 1500,
+    concurrent_jobs: 2,
+  },
+  {
+    id: Plan.PRO,
+    label: 'Pro',
+    price: '$29.99/month',
+    max_duration_sec: 60,
+    resolution: '4k',
+    priority: 2,
+    monthly_credits: 6000,
+    concurrent_jobs: 4,
+  },
+] as const;
+
+// Credits per second of footage by provider, plus a flat planning charge per job
+// (mirrored in supabase/functions/_shared/credits.ts)
+export const CREDIT_COSTS = {
+  PLANNING: 2,
+  PER_SEC: {
+    veo: 2,
+    syncso: 1,
+    stub: 0,
+  } as Record<string, number>,
+  DEFAULT_PROVIDERS: { video: 'veo', lipsync: 'syncso' },
+} as const;
+
 // Platform/aspect ratio options
 export const Platform = {
   PORTRAIT: '9:16',
   LANDSCAPE: '16:9',
   SQUARE: '1:1',
+  FEED: '4:5',
 } as const;
 
 export type PlatformType = typeof Platform[keyof typeof Platform];
 
-// Rate limits
+// Player frame per aspect ratio; Tailwind needs the full class names at build time
+export const ASPECT_CLASSES: Record<PlatformType, string> = {
+  '9:16': 'aspect-[9/16]',
+  '16:9': 'aspect-video',
+  '1:1': 'aspect-square',
+  '4:5': 'aspect-[4/5]',
+};
+
+// Where ready_for_assembly jobs are rendered (mirrored in create-job)
+export const AssemblyMode = {
+  CLIENT: 'client',
+  SERVER: 'server',
+} as const;
+
+// Jobs a user can create (mirrored in supabase/functions/_shared/plans.ts)
 export const RATE_LIMITS = {
   FREE_JOBS_PER_HOUR: 10,
   PAID_JOBS_PER_HOUR: 50,
+  FREE_JOBS_PER_DAY: 20,
+  PAID_JOBS_PER_DAY: 200,
+} as const;
+
+// Job history page size; pages are keyed on created_at (idx_jobs_user_created)
+export const JOB_HISTORY = {
+  PAGE_SIZE: 12,
+} as const;
+
+// Regeneration styles offered on the result screen (mirrored in create-job and process-job)
+export const STYLE_CHIPS = [
+  { id: 'raw', label: 'More raw' },
+  { id: 'cinematic', label: 'More cinematic' },
+  { id: 'intense', label: 'More intense' },
+] as const;
+
+// How long a new share link stays up; null never expires
+export const SHARE_EXPIRY_OPTIONS = [
+  { days: 7, label: '7 days' },
+  { days: 30, label: '30 days' },
+  { days: null, label: 'Never' },
+] as const;
+
+// Storyboard editing bounds (mirrored in process-job normalizeStoryboard)
+export const STORYBOARD_LIMITS = {
+  MIN_SCENES: 1,
+  MAX_SCENES: 8,
+  MIN_SCENE_SEC: 2,
+  MAX_SCENE_SEC: 8,
+  MAX_PROMPT_LENGTH: 500,
+} as const;
+
+// Audio excerpt selection on the upload step (mirrored in create-job)
+export const AUDIO_EXCERPT = {
+  MIN_SEC: 10,
+  MAX_SEC: 60,
+  DEFAULT_SEC: 15,
+} as const;
+
+// Hero segments marked inside the excerpt; each is lip-synced on its own (mirrored in create-job)
+export const HERO_SEGMENT_LIMITS = {
+  MAX_SEGMENTS: 4,
+  MIN_SEC: 2,
+  MAX_SEC: 20,
+  DEFAULT_SEC: 4,
+} as const;
+
+// Beat grid payload bounds (mirrored in create-job)
+export const BEAT_GRID_LIMITS = {
+  MAX_BEATS: 2000,
+} as const;
+
+// Caption timing bounds (mirrored in process-job normalizeCaptions)
+export const CAPTION_LIMITS = {
+  MAX_CUES: 200,
+  MAX_CUE_LENGTH: 200,
 } as const;
 
 // Retry configuration
@@ -0,0 +1,56 @@
+import { supabase } from '@/integrations/supabase/client';
+import { CREDIT_COSTS } from '@/lib/constants';
+import type { CreditEntry, HeroSegment, ProviderConfig } from '@/types/veosync';
+
+const CREDIT_HISTORY_COLUMNS = 'id, job_id, kind, amount, balance_after, created_at';
+
+const providerRate = (providerId: string) =>
+  CREDIT_COSTS.PER_SEC[providerId] ?? Math.max(...Object.values(CREDIT_COSTS.PER_SEC));
+
+/**
+ * The most a video can cost, as create-job reserves it: every second priced
+ * as a b-roll clip, plus the lip-synced seconds. What the render doesn't use
+ * comes back once it's done.
+ */
+export function estimateCredits(durationSec: number, heroSegments: HeroSegment[], providers?: ProviderConfig): number {
+  const heroSec = heroSegments.reduce((sum, segment) => sum + segment.end_sec - segment.start_sec, 0);
+  return Math.ceil(
+    CREDIT_COSTS.PLANNING +
+      durationSec * providerRate(providers?.video ?? CREDIT_COSTS.DEFAULT_PROVIDERS.video) +
+      (heroSec || durationSec) * providerRate(providers?.lipsync ?? CREDIT_COSTS.DEFAULT_PROVIDERS.lipsync)
+  );
+}
+
+export const formatCredits = (credits: number) => credits.toLocaleString('en-US');
+
+export class InsufficientCreditsError extends Error {
+  constructor(public required: number, public balance: number | null) {
+    super(
+      balance === null
+        ? `This video needs up to ${formatCredits(required)} credits`
+        : `This video needs up to ${formatCredits(required)} credits and you have ${formatCredits(balance)}`
+    );
+    this.name = 'InsufficientCreditsError';
+  }
+}
+
+// Latest movements first
+export async function fetchCreditHistory(userId: string, limit = 10): Promise<CreditEntry[]> {
+  const { data, error } = await supabase
+    .from('credit_ledger')
+    .select(CREDIT_HISTORY_COLUMNS)
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+  if (error) throw error;
+  return (data ?? []) as CreditEntry[];
+}
+
+const ENTRY_LABELS: Record<CreditEntry['kind'], string> = {
+  grant: 'Monthly credits',
+  reserve: 'Held for a video',
+  settle: 'Unused hold returned',
+  refund: 'Refunded for a failed video',
+};
+
+export const describeCreditEntry = (entry: CreditEntry) => ENTRY_LABELS[entry.kind];
@@ -0,0 +1,111 @@
+import type { AssemblyManifest, Emotion, KenBurnsMotion, TransitionType } from '@/types/veosync';
+
+interface EditGrammar {
+  // Transitions cycled through from the second clip onwards
+  sequence: TransitionType[];
+  duration_sec: number;
+  // Ken Burns moves cycled through for still-image clips
+  motions: KenBurnsMotion[];
+  zoom: number;
+}
+
+export interface ResolvedTransition {
+  type: TransitionType;
+  duration_sec: number;
+}
+
+export interface ResolvedMotion {
+  type: KenBurnsMotion;
+  zoom: number;
+}
+
+export const TRANSITION_LABELS: Record<TransitionType, string> = {
+  cut: 'Cut',
+  crossfade: 'Crossfade',
+  'whip-pan': 'Whip pan',
+  flash: 'Flash',
+  glitch: 'Glitch',
+};
+
+// ffmpeg xfade transition used for each style (hard cuts skip xfade entirely)
+export const XFADE_TRANSITIONS: Record<Exclude<TransitionType, 'cut'>, string> = {
+  crossfade: 'fade',
+  'whip-pan': 'slideleft',
+  flash: 'fadewhite',
+  glitch: 'pixelize',
+};
+
+// How each emotion cuts between scenes
+export const EDIT_GRAMMAR: Record<Emotion, EditGrammar> = {
+  unfiltered: {
+    sequence: ['cut', 'cut', 'flash'],
+    duration_sec: 0.15,
+    motions: ['zoom-in', 'pan-right', 'zoom-out', 'pan-left'],
+    zoom: 1.2,
+  },
+  vulnerable: {
+    sequence: ['crossfade'],
+    duration_sec: 0.6,
+    motions: ['zoom-in', 'pan-up'],
+    zoom: 1.1,
+  },
+  untouchable: {
+    sequence: ['cut', 'crossfade'],
+    duration_sec: 0.3,
+    motions: ['zoom-out', 'pan-left'],
+    zoom: 1.15,
+  },
+  numb: {
+    sequence: ['crossfade'],
+    duration_sec: 0.8,
+    motions: ['pan-right', 'pan-left'],
+    zoom: 1.08,
+  },
+  ascending: {
+    sequence: ['crossfade', 'flash'],
+    duration_sec: 0.4,
+    motions: ['pan-up', 'zoom-in'],
+    zoom: 1.2,
+  },
+  unhinged: {
+    sequence: ['glitch', 'whip-pan', 'glitch', 'cut'],
+    duration_sec: 0.2,
+    motions: ['zoom-in', 'pan-down', 'zoom-out', 'pan-right'],
+    zoom: 1.3,
+  },
+};
+
+const grammarFor = (manifest: AssemblyManifest) =>
+  EDIT_GRAMMAR[manifest.emotion ?? 'unfiltered'] ?? EDIT_GRAMMAR.unfiltered;
+
+/**
+ * Transition into clip `index`: the clip's own override, else the next step
+ * of the emotion's grammar. Never longer than half of either neighbouring clip.
+ */
+export function resolveTransition(manifest: AssemblyManifest, index: number): ResolvedTransition {
+  const grammar = grammarFor(manifest);
+  const clip = manifest.clips[index];
+  const type = clip.transition?.type ?? grammar.sequence[(index - 1) % grammar.sequence.length];
+  if (index === 0 || type === 'cut') {
+    return { type: 'cut', duration_sec: 0 };
+  }
+
+  const neighbourLimit = Math.min(
+    manifest.clips[index - 1].duration_sec ?? Infinity,
+    clip.duration_sec ?? Infinity
+  ) / 2;
+  return {
+    type,
+    duration_sec: Math.min(clip.transition?.duration_sec ?? grammar.duration_sec, neighbourLimit),
+  };
+}
+
+// Pan/zoom for still-image clip `index`: the clip's own override, else the emotion's next move
+export function resolveMotion(manifest: AssemblyManifest, index: number): ResolvedMotion {
+  const grammar = grammarFor(manifest);
+  const clip = manifest.clips[index];
+  return {
+    type: clip.motion?.type ?? grammar.motions[index % grammar.motions.length],
+    zoom: Math.max(1, clip.motion?.zoom ?? grammar.zoom),
+  };
+}
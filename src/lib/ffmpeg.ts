@@ -1,120 +1,167 @@
 import { FFmpeg } from '@ffmpeg/ffmpeg';
-import { fetchFile, toBlobURL } from '@ffmpeg/util';
-import type { AssemblyManifest } from '@/types/veosync';
-
-let ffmpeg: FFmpeg | null = null;
-let loaded = false;
-
-export async function loadFFmpeg(): Promise<FFmpeg> {
-  if (ffmpeg && loaded) return ffmpeg;
-  
-  ffmpeg = new FFmpeg();
-  
-  const baseURL = 'https://unpkg.com/@ffmpeg/core@0.12.6/dist/umd';
-  
-  await ffmpeg.load({
-    coreURL: await toBlobURL(`${baseURL}/ffmpeg-core.js`, 'text/javascript'),
-    wasmURL: await toBlobURL(`${baseURL}/ffmpeg-core.wasm`, 'application/wasm'),
-  });
-  
-  loaded = true;
+import {
+  CAPTIONS_FILE,
+  assemblyCaptions,
+  assemblyRenders,
+  audioFileName,
+  buildAssemblyArgs,
+  clipFileName,
+} from '@/lib/assembly';
+import { CAPTION_FONT } from '@/lib/captions';
+import { fetchVerified, loadCore, supportsMultiThread, type CoreVariant } from '@/lib/ffmpegCore';
+import { logger } from '@/lib/logger';
+import type { AspectRatio, AssemblyManifest, AssemblyProgress, AssemblyUploadTarget } from '@/types/veosync';
+
+const FONTS_DIR = '/fonts';
+
+export interface AssembledVideo {
+  aspect_ratio: AspectRatio;
+  upload_target: AssemblyUploadTarget;
+  blob: Blob;
+}
+
+export interface AssembleOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: AssemblyProgress) => void;
+}
+
+// Set once the multithreaded core fails to start or turns out unavailable, so later assemblies skip it (and the warning)
+let multiThreadFailed = false;
+
+async function startFFmpeg(variant: CoreVariant, signal?: AbortSignal): Promise<FFmpeg> {
+  const { coreURL, wasmURL, workerURL } = await loadCore(variant);
+  const ffmpeg = new FFmpeg();
+  try {
+    await ffmpeg.load({ coreURL, wasmURL, workerURL }, { signal });
+  } catch (error) {
+    ffmpeg.terminate();
+    throw error;
+  }
   return ffmpeg;
 }
 
 /**
- * Infer file extension from a URL or default to the provided fallback.
+ * Start a fresh ffmpeg.wasm worker, multithreaded when the page is cross-origin
+ * isolated and single-threaded otherwise or if that fails. Callers own it and
+ * must terminate() it, which also frees the wasm heap and any listeners
+ * registered on it.
  */
-function getAudioExtension(url: string): string {
-  try {
-    const pathname = new URL(url).pathname;
-    const ext = pathname.split('.').pop()?.toLowerCase();
-    if (ext && ['mp3', 'wav', 'm4a', 'aac', 'mp4', 'ogg'].includes(ext)) {
-      return ext;
+export async function loadFFmpeg(signal?: AbortSignal): Promise<FFmpeg> {
+  if (supportsMultiThread() && !multiThreadFailed) {
+    try {
+      return await startFFmpeg('multi-thread', signal);
+    } catch (error) {
+      signal?.throwIfAborted();
+      multiThreadFailed = true;
+      logger.warn('Multithreaded ffmpeg core failed to start, using single-threaded', {
+        error: error instanceof Error ? error.message : String(error),
+      });
     }
-  } catch {
-    // URL parsing failed, fall through
+  } else if (!multiThreadFailed) {
+    // Hosting has to send the COOP/COEP headers in public/_headers for the faster core
+    multiThreadFailed = true;
+    logger.warn('Page is not cross-origin isolated, using the single-threaded ffmpeg core');
   }
-  return 'mp3'; // safe default
+  return startFFmpeg('single-thread', signal);
 }
 
+async function fetchBytes(url: string, signal?: AbortSignal): Promise<Uint8Array> {
+  const response = await fetch(url, { signal });
+  if (!response.ok) {
+    throw new Error(`Failed to download assembly input: ${response.status}`);
+  }
+  return new Uint8Array(await response.arrayBuffer());
+}
+
+function toVideoBlob(data: Uint8Array | string): Blob {
+  if (typeof data === 'string') {
+    return new Blob([data], { type: 'video/mp4' });
+  }
+  const buffer = new ArrayBuffer(data.length);
+  new Uint8Array(buffer).set(data);
+  return new Blob([buffer], { type: 'video/mp4' });
+}
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+/**
+ * Render the manifest in its target aspect ratio and every extra export.
+ * Clips are downloaded once and re-cropped per ratio; the primary render
+ * comes first. Aborting `signal` terminates the ffmpeg worker mid-encode
+ * and rejects with the signal's reason.
+ */
 export async function assembleVideo(
   manifest: AssemblyManifest,
-  onProgress?: (progress: number) => void
-): Promise<Blob> {
-  const ffmpegInstance = await loadFFmpeg();
-  
-  const clipFiles: string[] = [];
-  const audioExt = getAudioExtension(manifest.audio_url);
-  const audioFileName = `audio.${audioExt}`;
+  { signal, onProgress }: AssembleOptions = {}
+): Promise<AssembledVideo[]> {
+  signal?.throwIfAborted();
+  const ffmpegInstance = await loadFFmpeg(signal);
+  const terminate = () => ffmpegInstance.terminate();
+  signal?.addEventListener('abort', terminate, { once: true });
+
+  const renders = assemblyRenders(manifest);
+  let renderIndex = 0;
+  const handleProgress = ({ progress }: { progress: number }) => {
+    onProgress?.({
+      phase: 'encode',
+      progress: clamp((renderIndex + clamp(progress)) / renders.length),
+      render: { index: renderIndex, total: renders.length, aspect_ratio: renders[renderIndex].aspect_ratio },
+    });
+  };
 
   try {
-    // Download all clips
-    const totalClips = manifest.clips.length + 1; // +1 for audio
-    let downloadedCount = 0;
-
-    for (let i = 0; i < manifest.clips.length; i++) {
-      const clip = manifest.clips[i];
-      const fileName = `clip_${i}.mp4`;
-      const fileData = await fetchFile(clip.url);
-      await ffmpegInstance.writeFile(fileName, fileData);
-      clipFiles.push(fileName);
-      downloadedCount++;
-      onProgress?.((downloadedCount / totalClips) * 30); // 0-30% for downloads
+    // Download all clips, then the audio with its own extension
+    const downloads = [
+      ...manifest.clips.map((clip, i) => ({ url: clip.url, file: clipFileName(clip, i) })),
+      { url: manifest.audio_url, file: audioFileName(manifest) },
+    ];
+    onProgress?.({ phase: 'download', progress: 0 });
+    for (let i = 0; i < downloads.length; i++) {
+      await ffmpegInstance.writeFile(downloads[i].file, await fetchBytes(downloads[i].url, signal));
+      onProgress?.({ phase: 'download', progress: (i + 1) / downloads.length });
+    }
+
+    // Lyrics are burned in with libass, which needs the font on the virtual FS
+    const hasCaptions = assemblyCaptions(manifest, manifest.target.aspect_ratio) !== null;
+    if (hasCaptions) {
+      await ffmpegInstance.createDir(FONTS_DIR);
+      const font = await fetchVerified(CAPTION_FONT.url, CAPTION_FONT.sha256, signal);
+      await ffmpegInstance.writeFile(`${FONTS_DIR}/${CAPTION_FONT.file}`, new Uint8Array(font));
     }
 
-    // Download audio with correct extension
-    const audioData = await fetchFile(manifest.audio_url);
-    await ffmpegInstance.writeFile(audioFileName, audioData);
-    downloadedCount++;
-    onProgress?.(30);
+    ffmpegInstance.on('progress', handleProgress);
 
-    // Create concat file
-    const concatContent = clipFiles.map(f => `file '${f}'`).join('\n');
-    await ffmpegInstance.writeFile('concat.txt', concatContent);
+    const videos: AssembledVideo[] = [];
+    for (; renderIndex < renders.length; renderIndex++) {
+      const aspectRatio = renders[renderIndex].aspect_ratio;
+      const outputFile = `output_${renderIndex}.mp4`;
+      handleProgress({ progress: 0 });
 
-    // Set up progress handler
-    ffmpegInstance.on('progress', ({ progress }) => {
-      onProgress?.(30 + progress * 60); // 30-90% for processing
-    });
+      // Captions are laid out for each frame shape
+      const captions = hasCaptions ? assemblyCaptions(manifest, aspectRatio) : null;
+      if (captions) {
+        await ffmpegInstance.writeFile(CAPTIONS_FILE, captions);
+      }
 
-    // Concat videos and mux audio
-    await ffmpegInstance.exec([
-      '-f', 'concat',
-      '-safe', '0',
-      '-i', 'concat.txt',
-      '-i', audioFileName,
-      '-c:v', 'libx264',
-      '-c:a', 'aac',
-      '-shortest',
-      '-y',
-      'output.mp4'
-    ]);
-
-    onProgress?.(95);
-
-    // Read output
-    const data = await ffmpegInstance.readFile('output.mp4');
-    let blob: Blob;
-    if (typeof data === 'string') {
-      blob = new Blob([data], { type: 'video/mp4' });
-    } else {
-      const buffer = new ArrayBuffer(data.length);
-      const view = new Uint8Array(buffer);
-      view.set(data);
-      blob = new Blob([buffer], { type: 'video/mp4' });
+      const exitCode = await ffmpegInstance.exec(
+        buildAssemblyArgs(manifest, aspectRatio, outputFile, captions ? FONTS_DIR : null)
+      );
+      if (exitCode !== 0) {
+        throw new Error(`ffmpeg exited with ${exitCode} rendering ${aspectRatio}`);
+      }
+
+      videos.push({ ...renders[renderIndex], blob: toVideoBlob(await ffmpegInstance.readFile(outputFile)) });
+      await ffmpegInstance.deleteFile(outputFile);
     }
 
-    onProgress?.(100);
-    return blob;
+    return videos;
+  } catch (error) {
+    // Termination rejects pending calls with its own error; surface the abort instead
+    signal?.throwIfAborted();
+    throw error;
   } finally {
-    // Always clean up files, even on error
-    const filesToClean = [...clipFiles, audioFileName, 'concat.txt', 'output.mp4'];
-    for (const file of filesToClean) {
-      try {
-        await ffmpegInstance.deleteFile(file);
-      } catch {
-        // Ignore cleanup errors (file may not exist if we failed early)
-      }
-    }
+    signal?.removeEventListener('abort', terminate);
+    ffmpegInstance.off('progress', handleProgress);
+    ffmpegInstance.terminate();
   }
 }
@@ -0,0 +1,99 @@
+import coreURL from '@ffmpeg/core?url';
+import coreWasmURL from '@ffmpeg/core/wasm?url';
+import coreMtURL from '@ffmpeg/core-mt?url';
+import coreMtWasmURL from '@ffmpeg/core-mt/wasm?url';
+import coreMtWorkerURL from '@ffmpeg/core-mt/dist/esm/ffmpeg-core.worker.js?url';
+import { logger } from '@/lib/logger';
+
+export type CoreVariant = 'single-thread' | 'multi-thread';
+
+interface CoreFile {
+  url: string;
+  type: string;
+  // SHA-256 of the pinned @ffmpeg/core(-mt) 0.12.6 ESM build; update together with package.json
+  sha256: string;
+}
+
+// Bundled by Vite and served from our own origin
+const CORE_FILES: Record<CoreVariant, { core: CoreFile; wasm: CoreFile; worker?: CoreFile }> = {
+  'single-thread': {
+    core: { url: coreURL, type: 'text/javascript', sha256: 'yXL1q+r81fOUnlTt+9x0qbrbJwJYCf6xlF1Gj/vPt/E=' },
+    wasm: { url: coreWasmURL, type: 'application/wasm', sha256: 'I5Dvp/tm5+QtuuFUJ1caX/yWuClICQTDD0cfCniWf2E=' },
+  },
+  'multi-thread': {
+    core: { url: coreMtURL, type: 'text/javascript', sha256: 'V7lsD4dUj75rQ9UGGM0YIGzNmN+pfAyqPq+K9Tq2ivA=' },
+    wasm: { url: coreMtWasmURL, type: 'application/wasm', sha256: 'amhj+p8I7nnEc2NUdCHhKpBiS5u72MEOv31ZZ8qxRkk=' },
+    worker: { url: coreMtWorkerURL, type: 'text/javascript', sha256: '3PaUOZZlJWYrUtY4JTYVryPQlnetE15nTRqZiRad7Yk=' },
+  },
+};
+
+export class CoreIntegrityError extends Error {
+  constructor(url: string) {
+    super(`ffmpeg asset failed its integrity check: ${url}`);
+    this.name = 'CoreIntegrityError';
+  }
+}
+
+async function sha256(data: ArrayBuffer): Promise<string> {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', data));
+  return btoa(String.fromCharCode(...digest));
+}
+
+/**
+ * Fetch a file ffmpeg depends on from our origin and check it against its
+ * pinned digest.
+ */
+export async function fetchVerified(url: string, digest: string, signal?: AbortSignal): Promise<ArrayBuffer> {
+  const response = await fetch(url, { signal });
+  if (!response.ok) {
+    throw new Error(`Failed to load ffmpeg asset: ${response.status}`);
+  }
+  const data = await response.arrayBuffer();
+
+  // SubtleCrypto only exists in secure contexts, e.g. not on a LAN dev server
+  if (crypto.subtle) {
+    if ((await sha256(data)) !== digest) throw new CoreIntegrityError(url);
+  } else {
+    logger.warn('Skipping ffmpeg asset integrity check outside a secure context', { url });
+  }
+  return data;
+}
+
+// A blob URL, so the bytes ffmpeg runs are exactly the ones that were verified
+async function verifiedBlobURL(file: CoreFile): Promise<string> {
+  const data = await fetchVerified(file.url, file.sha256);
+  return URL.createObjectURL(new Blob([data], { type: file.type }));
+}
+
+export interface CoreConfig {
+  variant: CoreVariant;
+  coreURL: string;
+  wasmURL: string;
+  workerURL?: string;
+}
+
+// Verified core files are fetched once per page load and variant
+const loaded = new Map<CoreVariant, Promise<CoreConfig>>();
+
+export function loadCore(variant: CoreVariant): Promise<CoreConfig> {
+  let config = loaded.get(variant);
+  if (!config) {
+    const { core, wasm, worker } = CORE_FILES[variant];
+    config = Promise.all([
+      verifiedBlobURL(core),
+      verifiedBlobURL(wasm),
+      worker ? verifiedBlobURL(worker) : undefined,
+    ]).then(([coreURL, wasmURL, workerURL]) => ({ variant, coreURL, wasmURL, workerURL }));
+    loaded.set(variant, config);
+    // Let the next assembly retry after a network failure
+    config.catch(() => loaded.delete(variant));
+  }
+  return config;
+}
+
+/**
+ * The multithreaded core needs SharedArrayBuffer, which browsers only expose
+ * to cross-origin isolated pages (COOP/COEP headers, see vite.config.ts).
+ */
+export const supportsMultiThread = () =>
+  typeof SharedArrayBuffer !== 'undefined' && self.crossOriginIsolated === true;
@@ -0,0 +1,122 @@
+import { supabase } from '@/integrations/supabase/client';
+import { URL_EXPIRY } from '@/lib/constants';
+import { asLimitError } from '@/lib/limits';
+import { logger } from '@/lib/logger';
+import { isSignedUrlExpired, parseStorageUrl, resignUrls } from '@/lib/storage';
+import type { AssemblyManifest, AssemblyUploadTarget, JobStatus } from '@/types/veosync';
+
+// The pipeline, the assembly worker and the job's credit hold still depend on these
+// (mirrors the "Users can delete own jobs" policy)
+const ACTIVE_STATUSES: JobStatus[] = ['running', 'assembling'];
+
+export const isJobActive = (status: JobStatus) => ACTIVE_STATUSES.includes(status);
+
+export class JobActiveError extends Error {
+  constructor() {
+    super('This video is still rendering. Delete it once it has finished.');
+    this.name = 'JobActiveError';
+  }
+}
+
+/**
+ * Delete a job, its asset rows and the storage objects only it uses: the
+ * rendered videos and share posters, plus the selfie and song unless a sibling job (e.g. a
+ * style regeneration) was made from the same uploads. The row goes first, so a
+ * failure never leaves a job pointing at removed files.
+ */
+export async function deleteJob(jobId: string): Promise<void> {
+  const { data: job, error: jobError } = await supabase
+    .from('jobs')
+    .select('id, user_id, status, selfie_url, song_url, result_url, outputs, assembly_manifest')
+    .eq('id', jobId)
+    .single();
+  if (jobError || !job) throw jobError ?? new Error('Job not found');
+  if (isJobActive(job.status as JobStatus)) throw new JobActiveError();
+
+  const manifest = job.assembly_manifest as unknown as AssemblyManifest | null;
+  const objects: AssemblyUploadTarget[] = [
+    ...(manifest ? [manifest.upload_target, ...(manifest.exports ?? []).map((e) => e.upload_target)] : []),
+    ...[job.result_url, ...Object.values((job.outputs as Record<string, string> | null) ?? {})]
+      .map(parseStorageUrl)
+      .filter((object): object is AssemblyUploadTarget => object !== null),
+  ];
+
+  const { data: shares } = await supabase.from('shares').select('poster_path').eq('job_id', jobId);
+  for (const { poster_path } of shares ?? []) {
+    if (poster_path) objects.push({ bucket: 'outputs', path: poster_path });
+  }
+
+  // Each signed link carries its own token, so uploads are compared by object, not URL
+  const { data: siblings, error: siblingsError } = await supabase
+    .from('jobs')
+    .select('selfie_url, song_url')
+    .eq('user_id', job.user_id)
+    .neq('id', jobId);
+  if (siblingsError) throw siblingsError;
+  const sharedUploads = new Set(
+    (siblings ?? [])
+      .flatMap((sibling) => [sibling.selfie_url, sibling.song_url].map(parseStorageUrl))
+      .filter((object): object is AssemblyUploadTarget => object !== null)
+      .map(({ bucket, path }) => `${bucket}/${path}`)
+  );
+  for (const upload of [job.selfie_url, job.song_url].map(parseStorageUrl)) {
+    if (upload && !sharedUploads.has(`${upload.bucket}/${upload.path}`)) objects.push(upload);
+  }
+
+  // The policy refuses active jobs too, in case the job started rendering since it was read
+  const { data: deleted, error: deleteError } = await supabase
+    .from('jobs')
+    .delete()
+    .eq('id', jobId)
+    .select('id');
+  if (deleteError) throw deleteError;
+  if (!deleted || deleted.length === 0) throw new JobActiveError();
+
+  // The job is gone either way, so leftovers are only logged
+  const log = logger.withJob(jobId, job.user_id);
+  const { error: assetsError } = await supabase.from('assets').delete().eq('meta->>job_id', jobId);
+  if (assetsError) log.warn('Failed to delete asset rows', { error: assetsError.message });
+
+  const byBucket = new Map<string, Set<string>>();
+  for (const { bucket, path } of objects) {
+    byBucket.set(bucket, (byBucket.get(bucket) ?? new Set()).add(path));
+  }
+  for (const [bucket, paths] of byBucket) {
+    const { error } = await supabase.storage.from(bucket).remove([...paths]);
+    if (error) log.warn('Failed to delete stored files', { bucket, error: error.message });
+  }
+}
+
+// Re-run a failed job's render; finished steps are kept and failed ones retried.
+// The failure refunded the job's credits, so this holds them again
+export async function retryJob(jobId: string): Promise<void> {
+  const { error } = await supabase.functions.invoke('process-job', {
+    body: { job_id: jobId },
+  });
+  if (error) throw await asLimitError(error);
+}
+
+// Re-sign a finished job's videos if their links have lapsed, so it can be played again
+export async function refreshJobOutputs(jobId: string): Promise<void> {
+  const { data: job } = await supabase
+    .from('jobs')
+    .select('result_url, outputs')
+    .eq('id', jobId)
+    .single();
+  if (!job?.result_url) return;
+
+  const outputs = (job.outputs as Record<string, string> | null) ?? {};
+  const urls = [job.result_url, ...Object.values(outputs)];
+  if (!urls.some((url) => isSignedUrlExpired(url))) return;
+
+  const signed = await resignUrls(urls, URL_EXPIRY.OUTPUT);
+  await supabase
+    .from('jobs')
+    .update({
+      result_url: signed.get(job.result_url) ?? job.result_url,
+      outputs: job.outputs
+        ? Object.fromEntries(Object.entries(outputs).map(([ratio, url]) => [ratio, signed.get(url) ?? url]))
+        : null,
+    })
+    .eq('id', jobId);
+}
@@ -0,0 +1,50 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { InsufficientCreditsError } from '@/lib/credits';
+import type { PlanType } from '@/lib/constants';
+
+export type LimitKind = 'hourly' | 'daily' | 'concurrent' | 'max_duration';
+
+// Something only a bigger plan unlocks, such as a longer video (a 402 with code plan_limit)
+export class PlanLimitError extends Error {
+  constructor(message: string, public limit: LimitKind, public max: number, public plan: PlanType) {
+    super(message);
+    this.name = 'PlanLimitError';
+  }
+}
+
+// Too many videos at once or too quickly; clears on its own after retryAfterSec (a 429)
+export class CooldownError extends Error {
+  constructor(message: string, public limit: LimitKind, public max: number, public retryAfterSec: number) {
+    super(`${message}. Try again in ${formatWait(retryAfterSec)}.`);
+    this.name = 'CooldownError';
+  }
+}
+
+export function formatWait(seconds: number): string {
+  if (seconds < 60) return 'a minute';
+  const minutes = Math.ceil(seconds / 60);
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.ceil(minutes / 60);
+  return hours === 1 ? 'an hour' : `${hours} hours`;
+}
+
+/**
+ * A 402 or 429 from create-job or process-job as the error it stands for:
+ * out of credits, over the plan, or cooling down. Any other error is
+ * returned as is.
+ */
+export async function asLimitError(error: unknown): Promise<unknown> {
+  if (!(error instanceof FunctionsHttpError)) return error;
+  const response = error.context as Response;
+  if (response.status !== 402 && response.status !== 429) return error;
+
+  const body = await response.json().catch(() => null);
+  if (response.status === 429) {
+    const retryAfterSec = Number(body?.retry_after_sec ?? response.headers.get('Retry-After')) || 60;
+    return new CooldownError(body?.error ?? 'Too many videos right now', body?.limit, Number(body?.max) || 0, retryAfterSec);
+  }
+  if (body?.code === 'plan_limit') {
+    return new PlanLimitError(body.error ?? 'Your plan doesn\'t cover this video', body.limit, Number(body.max) || 0, body.plan);
+  }
+  return new InsufficientCreditsError(Number(body?.required) || 0, typeof body?.balance === 'number' ? body.balance : null);
+}
@@ -0,0 +1,44 @@
+import { supabase } from '@/integrations/supabase/client';
+import { STYLE_CHIPS } from '@/lib/constants';
+import { EMOTIONS } from '@/lib/emotions';
+import { getActiveShare, refreshSharePoster } from '@/lib/shares';
+import type { JobVersion } from '@/types/veosync';
+
+const emotionLabel = (id: string) => EMOTIONS.find((emotion) => emotion.id === id)?.label ?? id;
+const styleLabel = (id: string) => STYLE_CHIPS.find((chip) => chip.id === id)?.label ?? id;
+
+/**
+ * What a version changed from the one it was made from, in the order the
+ * user would have changed them: emotion, style, then storyboard edits.
+ */
+export function describeChanges(version: JobVersion, versions: JobVersion[]): string[] {
+  const parent = versions.find((v) => v.id === version.parent_job_id);
+  if (!parent) return [version.version === 1 ? 'Original' : 'From a deleted version'];
+
+  const changes: string[] = [];
+  if (version.emotion !== parent.emotion) {
+    changes.push(`${emotionLabel(parent.emotion)} → ${emotionLabel(version.emotion)}`);
+  }
+  const addedStyles = version.style_chips.filter((chip) => !parent.style_chips.includes(chip));
+  if (addedStyles.length > 0) {
+    changes.push(addedStyles.map(styleLabel).join(' + '));
+  }
+  if (version.scenes_edited) {
+    changes.push(`${version.scenes_edited} ${version.scenes_edited === 1 ? 'scene' : 'scenes'} edited`);
+  }
+  return changes.length > 0 ? changes : [`Re-rolled from v${parent.version}`];
+}
+
+/**
+ * Make a finished version the one shared links play. A live link's poster
+ * is re-captured from the new version so previews match what plays.
+ */
+export async function promoteVersion(version: JobVersion, versions: JobVersion[], userId: string): Promise<void> {
+  const { error } = await supabase.rpc('promote_job_version', { p_job_id: version.id });
+  if (error) throw error;
+
+  const share = await getActiveShare(versions.map((v) => v.id));
+  if (share && version.result_url) {
+    await refreshSharePoster(share, userId, version.result_url);
+  }
+}
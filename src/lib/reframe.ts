@@ -0,0 +1,69 @@
+import type { FocusPoint } from '@/types/veosync';
+
+// Selfies frame the face above centre; used when no face can be found
+const DEFAULT_FOCUS: FocusPoint = { x: 0.5, y: 0.4 };
+
+// Shape Detection API; only some browsers ship it
+interface DetectedFace {
+  boundingBox: DOMRectReadOnly;
+}
+
+declare global {
+  interface Window {
+    FaceDetector?: new (options?: { fastMode?: boolean; maxDetectedFaces?: number }) => {
+      detect(image: ImageBitmapSource): Promise<DetectedFace[]>;
+    };
+  }
+}
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+// First usable frame of an image or video file
+async function firstFrame(file: File): Promise<ImageBitmap> {
+  if (file.type.startsWith('image/')) {
+    return createImageBitmap(file);
+  }
+
+  const url = URL.createObjectURL(file);
+  try {
+    const video = document.createElement('video');
+    video.muted = true;
+    video.playsInline = true;
+    video.src = url;
+    await new Promise<void>((resolve, reject) => {
+      video.onloadeddata = () => resolve();
+      video.onerror = () => reject(new Error('Could not decode selfie video'));
+    });
+    return await createImageBitmap(video);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+/**
+ * Where the subject sits in the selfie, so crops to other aspect ratios keep
+ * the face in frame. Uses the largest detected face when the browser can
+ * detect faces, otherwise the usual selfie framing.
+ */
+export async function detectFocus(file: File): Promise<FocusPoint> {
+  if (!window.FaceDetector) return DEFAULT_FOCUS;
+
+  try {
+    const frame = await firstFrame(file);
+    const faces = await new window.FaceDetector({ fastMode: true, maxDetectedFaces: 5 }).detect(frame);
+    const { width, height } = frame;
+    frame.close();
+    if (faces.length === 0) return DEFAULT_FOCUS;
+
+    const largest = faces.reduce((best, face) =>
+      face.boundingBox.width * face.boundingBox.height > best.boundingBox.width * best.boundingBox.height ? face : best
+    );
+    const box = largest.boundingBox;
+    return {
+      x: round((box.x + box.width / 2) / width),
+      y: round((box.y + box.height / 2) / height),
+    };
+  } catch {
+    return DEFAULT_FOCUS;
+  }
+}
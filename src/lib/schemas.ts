@@ -1,5 +1,76 @@
 import { z } from 'zod';
-import { JobStatus, Emotion, SubscriptionStatus, Plan, Platform } from './constants';
+import { JobStatus, Emotion, SubscriptionStatus, Plan, Platform, AssemblyMode, STORYBOARD_LIMITS, CAPTION_LIMITS, AUDIO_EXCERPT, BEAT_GRID_LIMITS, HERO_SEGMENT_LIMITS, STYLE_CHIPS } from './constants';
+import type { StyleChip } from '@/types/veosync';
+
+// Storyboard scene schema (edited on the storyboard review step)
+export const StoryboardSceneSchema = z.object({
+  type: z.enum(['avatar', 'broll']),
+  prompt: z.string().trim().min(1).max(STORYBOARD_LIMITS.MAX_PROMPT_LENGTH),
+  duration_sec: z.number()
+    .min(STORYBOARD_LIMITS.MIN_SCENE_SEC)
+    .max(STORYBOARD_LIMITS.MAX_SCENE_SEC),
+  transition: z.enum(['cut', 'crossfade', 'whip-pan', 'flash', 'glitch']).optional(),
+});
+
+export const StoryboardSchema = z.array(StoryboardSceneSchema)
+  .min(STORYBOARD_LIMITS.MIN_SCENES)
+  .max(STORYBOARD_LIMITS.MAX_SCENES);
+
+export type StoryboardFromSchema = z.infer<typeof StoryboardSchema>;
+
+// Caption timing schema (edited in the timing editor)
+export const CaptionCueSchema = z.object({
+  start: z.number().min(0),
+  end: z.number(),
+  text: z.string().trim().min(1).max(CAPTION_LIMITS.MAX_CUE_LENGTH),
+  words: z.array(z.object({
+    text: z.string(),
+    start: z.number(),
+    end: z.number(),
+  })),
+}).refine((cue) => cue.end > cue.start, { message: 'Cue must end after it starts', path: ['end'] });
+
+export const CaptionTrackSchema = z.object({
+  source: z.enum(['aligned', 'estimated', 'manual']),
+  cues: z.array(CaptionCueSchema).max(CAPTION_LIMITS.MAX_CUES),
+});
+
+export type CaptionTrackFromSchema = z.infer<typeof CaptionTrackSchema>;
+
+// Beat grid detected on the upload step
+export const BeatGridSchema = z.object({
+  bpm: z.number().positive(),
+  beats: z.array(z.number().nonnegative()).max(BEAT_GRID_LIMITS.MAX_BEATS),
+  downbeats: z.array(z.number().nonnegative()).max(BEAT_GRID_LIMITS.MAX_BEATS),
+  confidence: z.number(),
+});
+
+// Song window the performer lip-syncs, marked on the upload step
+export const HeroSegmentSchema = z.object({
+  start_sec: z.number().nonnegative(),
+  end_sec: z.number().positive(),
+}).refine(
+  (segment) =>
+    segment.end_sec - segment.start_sec >= HERO_SEGMENT_LIMITS.MIN_SEC &&
+    segment.end_sec - segment.start_sec <= HERO_SEGMENT_LIMITS.MAX_SEC,
+  { message: `Hero segments must be ${HERO_SEGMENT_LIMITS.MIN_SEC}-${HERO_SEGMENT_LIMITS.MAX_SEC} seconds`, path: ['end_sec'] }
+);
+
+export const AspectRatioSchema = z.enum([
+  Platform.PORTRAIT,
+  Platform.LANDSCAPE,
+  Platform.SQUARE,
+  Platform.FEED,
+]);
+
+export const FocusPointSchema = z.object({
+  x: z.number().min(0).max(1),
+  y: z.number().min(0).max(1),
+});
+
+export const StyleChipSchema = z.enum(
+  STYLE_CHIPS.map((chip) => chip.id) as [StyleChip, ...StyleChip[]]
+);
 
 // Job schema
 export const JobSchema = z.object({
@@ -7,6 +78,7 @@ export const JobSchema = z.object({
   user_id: z.string().uuid(),
   status: z.enum([
     JobStatus.QUEUED,
+    JobStatus.STORYBOARD_READY,
     JobStatus.RUNNING,
     JobStatus.READY_FOR_ASSEMBLY,
     JobStatus.ASSEMBLING,
@@ -24,10 +96,28 @@ export const JobSchema = z.object({
   lyrics: z.string().nullable(),
   song_url: z.string().nullable(),
   selfie_url: z.string().nullable(),
+  selfie_focus: FocusPointSchema.nullable(),
+  platform: AspectRatioSchema,
+  export_platforms: z.array(AspectRatioSchema),
+  outputs: z.record(z.string()).nullable(),
+  audio_start_sec: z.number().nullable(),
+  audio_end_sec: z.number().nullable(),
+  beat_grid: BeatGridSchema.nullable(),
+  hero_segments: z.array(HeroSegmentSchema).nullable(),
   result_url: z.string().nullable(),
   error: z.string().nullable(),
   provider_refs: z.record(z.unknown()).nullable(),
+  providers: z.record(z.string()).nullable(),
+  storyboard: StoryboardSchema.nullable(),
+  captions: CaptionTrackSchema.nullable(),
+  progress: z.unknown().nullable(),
   assembly_manifest: z.unknown().nullable(),
+  assembly_mode: z.enum([AssemblyMode.CLIENT, AssemblyMode.SERVER]),
+  parent_job_id: z.string().uuid().nullable(),
+  root_job_id: z.string().uuid().nullable(),
+  version: z.number().int().positive(),
+  is_current: z.boolean(),
+  style_chips: z.array(StyleChipSchema),
   created_at: z.string(),
   updated_at: z.string(),
 });
@@ -54,8 +144,17 @@ export type SubscriptionFromSchema = z.infer<typeof SubscriptionSchema>;
 // Profile schema
 export const ProfileSchema = z.object({
   id: z.string().uuid(),
-  plan: z.enum([Plan.FREE, Plan.CREATOR]).nullable(),
+  plan: z.enum([Plan.FREE, Plan.CREATOR, Plan.PRO]).nullable(),
   stripe_customer_id: z.string().nullable(),
+  past_due_since: z.string().nullable(),
+  grace_period_ends_at: z.string().nullable(),
+  trial_ends_at: z.string().nullable(),
+  last_refund: z.object({
+    amount: z.number(),
+    currency: z.string(),
+    full: z.boolean(),
+    refunded_at: z.string(),
+  }).nullable(),
   created_at: z.string().nullable(),
 });
 
@@ -84,19 +183,56 @@ export type AssemblyManifestFromSchema = z.infer<typeof AssemblyManifestSchema>;
 // Request body schemas for edge functions
 export const CreateJobRequestSchema = z.object({
   emotion: z.string().min(1),
-  platform: z.string().default(Platform.PORTRAIT),
+  platform: AspectRatioSchema.default(Platform.PORTRAIT),
+  export_platforms: z.array(AspectRatioSchema).max(3).optional(),
   selfie_asset_url: z.string().url(),
+  selfie_focus: FocusPointSchema.optional(),
   song_asset_url: z.string().url(),
+  audio_start_sec: z.number().nonnegative().optional(),
+  audio_end_sec: z.number().positive().optional(),
+  beat_grid: BeatGridSchema.optional(),
   lyrics: z.string().optional(),
-  hero_segments: z.array(z.number()).optional(),
-  style_chips: z.array(z.string()).optional(),
+  hero_segments: z.array(HeroSegmentSchema).max(HERO_SEGMENT_LIMITS.MAX_SEGMENTS).optional(),
+  style_chips: z.array(StyleChipSchema).optional(),
   output: z.object({
     duration_sec: z.number().positive().optional(),
   }).optional(),
-});
+  providers: z.object({
+    video: z.enum(['veo', 'stub']).optional(),
+    lipsync: z.enum(['syncso', 'stub']).optional(),
+  }).optional(),
+  assembly: z.enum([AssemblyMode.CLIENT, AssemblyMode.SERVER]).optional(),
+}).refine(
+  (plan) => plan.audio_end_sec === undefined || (
+    plan.audio_start_sec !== undefined &&
+    plan.audio_end_sec - plan.audio_start_sec >= AUDIO_EXCERPT.MIN_SEC &&
+    plan.audio_end_sec - plan.audio_start_sec <= AUDIO_EXCERPT.MAX_SEC
+  ),
+  { message: `Audio excerpt must be ${AUDIO_EXCERPT.MIN_SEC}-${AUDIO_EXCERPT.MAX_SEC} seconds`, path: ['audio_end_sec'] }
+);
 
 export type CreateJobRequest = z.infer<typeof CreateJobRequestSchema>;
 
+export const NewVersionRequestSchema = z.object({
+  parent_job_id: z.string().uuid(),
+  emotion: z.enum([
+    Emotion.UNFILTERED,
+    Emotion.VULNERABLE,
+    Emotion.UNTOUCHABLE,
+    Emotion.NUMB,
+    Emotion.ASCENDING,
+    Emotion.UNHINGED,
+  ]).optional(),
+  style_chips: z.array(StyleChipSchema).optional(),
+  providers: z.object({
+    video: z.enum(['veo', 'stub']).optional(),
+    lipsync: z.enum(['syncso', 'stub']).optional(),
+  }).optional(),
+  assembly: z.enum([AssemblyMode.CLIENT, AssemblyMode.SERVER]).optional(),
+});
+
+export type NewVersionRequestFromSchema = z.infer<typeof NewVersionRequestSchema>;
+
 // Utility function to safely parse with error handling
 export function safeParse<T>(
   schema: z.ZodType<T>,
@@ -0,0 +1,142 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { logger } from '@/lib/logger';
+import type { PublicShare, Share } from '@/types/veosync';
+
+const SHARE_COLUMNS = 'id, job_id, expires_at, revoked_at, view_count, created_at';
+
+// Longest edge of the poster frame; previews are shown small anyway
+const POSTER_MAX_SIZE = 1280;
+
+export class ShareUnavailableError extends Error {
+  constructor(public reason: 'not_found' | 'expired') {
+    super(reason === 'expired' ? 'This link has expired' : 'Share not found');
+    this.name = 'ShareUnavailableError';
+  }
+}
+
+export const shareUrl = (shareId: string) => `${window.location.origin}/v/${shareId}`;
+
+// The live link for any version of a video, if one hasn't lapsed or been revoked
+export async function getActiveShare(jobIds: string[]): Promise<Share | null> {
+  const { data } = await supabase
+    .from('shares')
+    .select(SHARE_COLUMNS)
+    .in('job_id', jobIds)
+    .is('revoked_at', null)
+    .or(`expires_at.is.null,expires_at.gt.${new Date().toISOString()}`)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  return data;
+}
+
+/**
+ * Grab a frame a second in as a JPEG. Needs the storage CORS headers to
+ * read the pixels back; callers carry on without a poster if it fails.
+ */
+function capturePoster(videoUrl: string): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    const video = document.createElement('video');
+    video.crossOrigin = 'anonymous';
+    video.muted = true;
+    video.preload = 'auto';
+    video.onerror = () => reject(new Error('Failed to load video for poster'));
+    video.onloadedmetadata = () => {
+      video.currentTime = Math.min(1, video.duration / 2);
+    };
+    video.onseeked = () => {
+      const scale = Math.min(1, POSTER_MAX_SIZE / Math.max(video.videoWidth, video.videoHeight));
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(video.videoWidth * scale);
+      canvas.height = Math.round(video.videoHeight * scale);
+      canvas.getContext('2d')?.drawImage(video, 0, 0, canvas.width, canvas.height);
+      canvas.toBlob(
+        (blob) => (blob ? resolve(blob) : reject(new Error('Failed to encode poster'))),
+        'image/jpeg',
+        0.85
+      );
+      video.removeAttribute('src');
+      video.load();
+    };
+    video.src = videoUrl;
+  });
+}
+
+// Poster frames live next to the job's renders; null if capture or upload fails
+async function uploadPoster(jobId: string, userId: string, videoUrl: string): Promise<string | null> {
+  const path = `${userId}/final/${jobId}-poster.jpg`;
+  try {
+    const poster = await capturePoster(videoUrl);
+    const { error } = await supabase.storage
+      .from('outputs')
+      .upload(path, poster, { contentType: 'image/jpeg', upsert: true });
+    if (error) throw error;
+    return path;
+  } catch (error) {
+    logger.withJob(jobId, userId).warn('Sharing without a poster frame', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+}
+
+export async function createShare({
+  jobId,
+  userId,
+  videoUrl,
+  expiresInDays,
+}: {
+  jobId: string;
+  userId: string;
+  videoUrl: string;
+  expiresInDays: number | null;
+}): Promise<Share> {
+  const posterPath = await uploadPoster(jobId, userId, videoUrl);
+
+  const { data, error } = await supabase
+    .from('shares')
+    .insert({
+      job_id: jobId,
+      user_id: userId,
+      poster_path: posterPath,
+      expires_at: expiresInDays === null
+        ? null
+        : new Date(Date.now() + expiresInDays * 86400 * 1000).toISOString(),
+    })
+    .select(SHARE_COLUMNS)
+    .single();
+  if (error || !data) throw error ?? new Error('Failed to create share');
+  return data;
+}
+
+// A link follows the current version, so its preview frame has to as well
+export async function refreshSharePoster(share: Share, userId: string, videoUrl: string): Promise<void> {
+  const posterPath = await uploadPoster(share.job_id, userId, videoUrl);
+  if (!posterPath) return;
+  const { error } = await supabase.from('shares').update({ poster_path: posterPath }).eq('id', share.id);
+  if (error) throw error;
+}
+
+export async function revokeShare(shareId: string): Promise<void> {
+  const { error } = await supabase
+    .from('shares')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', shareId);
+  if (error) throw error;
+}
+
+// Anyone can load a share; each load counts as a view
+export async function fetchPublicShare(shareId: string): Promise<PublicShare> {
+  const { data, error } = await supabase.functions.invoke<PublicShare>(
+    `share?id=${encodeURIComponent(shareId)}`,
+    { method: 'GET' }
+  );
+  if (error instanceof FunctionsHttpError) {
+    const status = (error.context as Response).status;
+    if (status === 404) throw new ShareUnavailableError('not_found');
+    if (status === 410) throw new ShareUnavailableError('expired');
+  }
+  if (error || !data) throw error ?? new Error('Failed to load share');
+  return data;
+}
@@ -0,0 +1,57 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { AssemblyUploadTarget } from '@/types/veosync';
+
+const SIGNED_PATH = '/storage/v1/object/sign/';
+
+/**
+ * Bucket and object path behind a Supabase signed URL, or null for any
+ * other URL (e.g. a provider's CDN link).
+ */
+export function parseStorageUrl(url: string | null | undefined): AssemblyUploadTarget | null {
+  if (!url) return null;
+  try {
+    const { pathname } = new URL(url);
+    const start = pathname.indexOf(SIGNED_PATH);
+    if (start === -1) return null;
+    const [bucket, ...path] = pathname.slice(start + SIGNED_PATH.length).split('/').map(decodeURIComponent);
+    return bucket && path.length > 0 ? { bucket, path: path.join('/') } : null;
+  } catch {
+    return null;
+  }
+}
+
+// Signed URL tokens are JWTs; true once `exp` is within `marginSec` of now
+export function isSignedUrlExpired(url: string, marginSec = 300): boolean {
+  try {
+    const token = new URL(url).searchParams.get('token');
+    if (!token) return false;
+    const payload = JSON.parse(atob(token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/')));
+    return typeof payload.exp === 'number' && payload.exp * 1000 < Date.now() + marginSec * 1000;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Fresh signed URLs for many objects at once, keyed by the original URL.
+ * URLs that aren't ours, or that fail to sign, are left out.
+ */
+export async function resignUrls(urls: string[], expiresIn: number): Promise<Map<string, string>> {
+  const byBucket = new Map<string, { url: string; path: string }[]>();
+  for (const url of new Set(urls)) {
+    const object = parseStorageUrl(url);
+    if (!object) continue;
+    byBucket.set(object.bucket, [...(byBucket.get(object.bucket) ?? []), { url, path: object.path }]);
+  }
+
+  const signed = new Map<string, string>();
+  for (const [bucket, objects] of byBucket) {
+    const { data } = await supabase.storage
+      .from(bucket)
+      .createSignedUrls(objects.map((object) => object.path), expiresIn);
+    data?.forEach((result, index) => {
+      if (result.signedUrl) signed.set(objects[index].url, result.signedUrl);
+    });
+  }
+  return signed;
+}
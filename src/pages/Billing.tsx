@@ -1,18 +1,69 @@
 import { useAuth } from '@/hooks/useAuth';
 import { useSubscription } from '@/hooks/useSubscription';
+import { useProfile } from '@/hooks/useProfile';
+import { useCredits } from '@/hooks/useCredits';
 import { Button } from '@/components/ui/button';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { BillingBanner } from '@/components/BillingBanner';
+import { PlanPicker } from '@/components/PlanPicker';
+import {
+  billingNotice,
+  changePlan,
+  formatAmount,
+  formatRefund,
+  planTier,
+  previewPlanChange,
+  startCheckout,
+} from '@/lib/billing';
+import { Plan, type PlanType } from '@/lib/constants';
+import { describeCreditEntry, fetchCreditHistory, formatCredits } from '@/lib/credits';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
-import { useState } from 'react';
-import { Loader2, CreditCard, Calendar, Check, ArrowLeft } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { Loader2, CreditCard, Calendar, Check, ArrowLeft, Undo2, Coins } from 'lucide-react';
 import { Link, Navigate } from 'react-router-dom';
+import type { CreditEntry, PlanChangePreview } from '@/types/veosync';
+
+// What confirming a plan change does to the bill
+function describeChange(preview: PlanChangePreview): string {
+  const tier = planTier(preview.plan);
+  if (preview.amount > 0) {
+    return `You'll be charged ${formatAmount(preview.amount, preview.currency)} now for the rest of this billing period, then ${tier.price}.`;
+  }
+  if (preview.amount < 0) {
+    return `${formatAmount(-preview.amount, preview.currency)} for the unused part of your plan goes toward your next invoice, then ${tier.price}.`;
+  }
+  return `Nothing to pay now. ${tier.label} renews at ${tier.price}.`;
+}
 
 export default function Billing() {
   const { user, loading: authLoading } = useAuth();
-  const { subscription, loading: subLoading, isActive } = useSubscription(user?.id);
+  const { subscription, loading: subLoading, isActive: isCurrent } = useSubscription(user?.id);
+  const { profile, loading: profileLoading } = useProfile(user?.id);
+  const { balance } = useCredits(user?.id);
   const [loading, setLoading] = useState(false);
+  const [busyPlan, setBusyPlan] = useState<PlanType | null>(null);
+  const [pendingChange, setPendingChange] = useState<PlanChangePreview | null>(null);
+  const [creditHistory, setCreditHistory] = useState<CreditEntry[]>([]);
+
+  // Every balance change is a new ledger entry, so reload the history alongside it
+  useEffect(() => {
+    if (!user?.id) return;
+    fetchCreditHistory(user.id)
+      .then(setCreditHistory)
+      .catch((error) => console.error('Credit history error:', error));
+  }, [user?.id, balance]);
 
-  if (authLoading || subLoading) {
+  if (authLoading || subLoading || profileLoading) {
     return (
       <div className="flex min-h-screen items-center justify-center bg-background">
         <div className="h-12 w-12 animate-spin rounded-full border-4 border-primary border-t-transparent" />
@@ -40,21 +91,46 @@ export default function Billing() {
     }
   };
 
-  const handleSubscribe = async () => {
-    setLoading(true);
+  const notice = billingNotice(profile);
+  // A failed renewal keeps the plan until its grace period runs out
+  const pastDue = subscription?.status === 'past_due';
+  const isActive = isCurrent || (pastDue && notice?.kind === 'payment_failed');
+  const tier = planTier(isActive ? profile?.plan ?? Plan.CREATOR : Plan.FREE);
+
+  // New subscribers go through Checkout; subscribers see the prorated cost before switching
+  const handleSelectPlan = async (plan: PlanType) => {
+    setBusyPlan(plan);
     try {
-      const { data, error } = await supabase.functions.invoke('create-checkout-session', {
-        body: { price_id: 'default' },
-      });
-      if (error) throw error;
-      if (data?.url) {
-        window.location.href = data.url;
+      if (tier.id === Plan.FREE) {
+        window.location.href = await startCheckout(plan);
+      } else {
+        setPendingChange(await previewPlanChange(plan));
       }
     } catch (error) {
-      console.error('Checkout error:', error);
-      toast.error('Failed to start checkout');
+      console.error('Plan change error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to change plans');
     } finally {
-      setLoading(false);
+      setBusyPlan(null);
+    }
+  };
+
+  const handleConfirmChange = async () => {
+    if (!pendingChange) return;
+    const change = pendingChange;
+    setPendingChange(null);
+    setBusyPlan(change.plan);
+    try {
+      const pending = await changePlan(change);
+      if (pending) {
+        toast.warning('Your bank needs to confirm the payment. Finish it in Manage Billing.');
+      } else {
+        toast.success(`Switched to ${planTier(change.plan).label}`);
+      }
+    } catch (error) {
+      console.error('Plan change error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to change plans');
+    } finally {
+      setBusyPlan(null);
     }
   };
 
@@ -81,6 +157,18 @@ export default function Billing() {
           BILLING
         </h1>
 
+        {notice && (
+          <BillingBanner
+            notice={notice}
+            className="mb-6"
+            action={
+              <Button variant="outline" size="sm" onClick={handleManageBilling} disabled={loading}>
+                {notice.kind === 'trial_ending' ? 'Add card' : 'Update card'}
+              </Button>
+            }
+          />
+        )}
+
         <div className="rounded-2xl bg-card p-6 border border-border">
           <div className="mb-6 flex items-center gap-4">
             <div className={`flex h-12 w-12 items-center justify-center rounded-full ${
@@ -94,13 +182,15 @@ export default function Billing() {
             </div>
             <div>
               <h2 className="font-display text-2xl tracking-wider">
-                {isActive ? 'CREATOR PLAN' : 'FREE PLAN'}
+                {tier.label.toUpperCase()} PLAN
               </h2>
               <p className="text-sm text-muted-foreground">
                 {isActive 
                   ? subscription?.status === 'trialing' 
                     ? 'Trial active'
-                    : 'Subscription active'
+                    : pastDue
+                      ? 'Payment failed, retrying'
+                      : 'Subscription active'
                   : 'No active subscription'}
               </p>
             </div>
@@ -120,7 +210,14 @@ export default function Billing() {
             </div>
           )}
 
-          {isActive ? (
+          {profile?.last_refund && (
+            <div className="mb-6 flex items-center gap-3 rounded-xl bg-muted/50 p-4">
+              <Undo2 className="h-5 w-5 text-muted-foreground" />
+              <p className="text-sm text-foreground">{formatRefund(profile.last_refund)}</p>
+            </div>
+          )}
+
+          {(isActive || pastDue) && (
             <Button
               variant="outline"
               className="w-full"
@@ -133,21 +230,62 @@ export default function Billing() {
                 'Manage Billing'
               )}
             </Button>
-          ) : (
-            <Button
-              variant="hero"
-              className="w-full"
-              onClick={handleSubscribe}
-              disabled={loading}
-            >
-              {loading ? (
-                <Loader2 className="h-5 w-5 animate-spin" />
-              ) : (
-                'Subscribe Now'
-              )}
-            </Button>
           )}
         </div>
+
+        <div className="mt-6 rounded-2xl bg-card p-6 border border-border">
+          <div className="mb-4 flex items-center gap-4">
+            <div className="flex h-12 w-12 items-center justify-center rounded-full bg-primary/20">
+              <Coins className="h-6 w-6 text-primary" />
+            </div>
+            <div>
+              <h2 className="font-display text-2xl tracking-wider tabular-nums">
+                {formatCredits(balance ?? 0)} CREDITS
+              </h2>
+              <p className="text-sm text-muted-foreground">
+                {tier.label} tops up to {formatCredits(tier.monthly_credits)} each month
+              </p>
+            </div>
+          </div>
+
+          {creditHistory.length > 0 && (
+            <ul className="divide-y divide-border text-sm">
+              {creditHistory.map((entry) => (
+                <li key={entry.id} className="flex items-center justify-between py-2">
+                  <span className="text-foreground">{describeCreditEntry(entry)}</span>
+                  <span className="flex items-center gap-3">
+                    <span className="text-muted-foreground">{formatDate(entry.created_at)}</span>
+                    <span className={`tabular-nums ${entry.amount < 0 ? 'text-muted-foreground' : 'text-primary'}`}>
+                      {entry.amount > 0 ? '+' : ''}{formatCredits(entry.amount)}
+                    </span>
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <h2 className="mb-4 mt-10 font-display text-2xl tracking-wider text-foreground">
+          {tier.id === Plan.FREE ? 'CHOOSE A PLAN' : 'CHANGE PLAN'}
+        </h2>
+        <PlanPicker currentPlan={tier.id} busyPlan={busyPlan} onSelect={handleSelectPlan} />
+
+        <AlertDialog open={pendingChange !== null} onOpenChange={(open) => !open && setPendingChange(null)}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>
+                {pendingChange?.upgrade ? 'Upgrade' : 'Downgrade'} to {planTier(pendingChange?.plan).label}?
+              </AlertDialogTitle>
+              <AlertDialogDescription>
+                {pendingChange && describeChange(pendingChange)}
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction onClick={handleConfirmChange}>Confirm</AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
       </div>
     </div>
   );
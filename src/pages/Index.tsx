@@ -1 +1,420 @@
-const [step, setStep] = useState<"emotion" | "upload" | "storyboard" | "generating" | "result">("emotion");
+import { useState, useEffect } from "react";
+import { toast } from "sonner";
+import { useSearchParams } from "react-router-dom";
+import { useAuth } from "@/hooks/useAuth";
+import { useProfile } from "@/hooks/useProfile";
+import { useJob } from "@/hooks/useJob";
+import { useClientAssembly } from "@/hooks/useClientAssembly";
+import { supabase } from "@/integrations/supabase/client";
+import { Header } from "@/components/Header";
+import { AuthScreen } from "@/components/AuthScreen";
+import { EmotionPicker } from "@/components/EmotionPicker";
+import { UploadScreen } from "@/components/UploadScreen";
+import { StoryboardScreen } from "@/components/StoryboardScreen";
+import { GenerateScreen } from "@/components/GenerateScreen";
+import { ResultScreen } from "@/components/ResultScreen";
+import { PaywallScreen } from "@/components/PaywallScreen";
+import {
+  activeClientAssembly,
+  cancelClientAssembly,
+  clearClientAssembly,
+  restartClientAssembly,
+  startClientAssembly,
+} from "@/lib/clientAssembly";
+import { cuesWithin } from "@/lib/captions";
+import { validateFile, sanitizeFilename, FileValidationError, type FileType } from "@/lib/fileValidation";
+import { StorageBuckets, URL_EXPIRY, Platform } from "@/lib/constants";
+import { effectivePlan, planTier } from "@/lib/billing";
+import { InsufficientCreditsError, estimateCredits } from "@/lib/credits";
+import { CooldownError, PlanLimitError, asLimitError } from "@/lib/limits";
+import { logger } from "@/lib/logger";
+import type {
+  AspectRatio,
+  CaptionTrack,
+  DirectorPlan,
+  Emotion,
+  Job,
+  NewVersionRequest,
+  ProviderConfig,
+  StoryboardScene,
+  StyleChip,
+  UploadState,
+} from "@/types/veosync";
+
+type Step = "emotion" | "upload" | "storyboard" | "generating" | "result" | "paywall";
+
+// Why the paywall is up, and where its back button returns to
+interface PaywallState {
+  reason: string;
+  onBack: () => void;
+}
+
+interface UploadedAssets {
+  selfieUrl: string;
+  songUrl: string;
+}
+
+const INITIAL_UPLOADS: UploadState = {
+  selfie: null,
+  selfiePreview: null,
+  selfieFocus: null,
+  audio: null,
+  audioName: null,
+  audioDuration: null,
+  audioStart: 0,
+  audioEnd: null,
+  beatGrid: null,
+  heroSegments: [],
+  lyrics: "",
+  platform: Platform.PORTRAIT,
+  exportPlatforms: [],
+};
+
+// Media fragment so previews play only the selected excerpt
+function excerptUrl(url: string, uploads: UploadState): string {
+  return uploads.audioEnd !== null ? `${url}#t=${uploads.audioStart},${uploads.audioEnd}` : url;
+}
+
+// Same for a restyle, whose song and excerpt come from the job rather than this session's uploads
+function jobExcerptUrl(job: Job): string {
+  return job.audio_end_sec !== undefined
+    ? `${job.song_url}#t=${job.audio_start_sec ?? 0},${job.audio_end_sec}`
+    : job.song_url;
+}
+
+// Offline development: render with the bundled sample clips instead of paid providers
+// (create-job only honours this where ALLOW_CLIENT_PROVIDERS is set)
+const PROVIDER_OVERRIDE: ProviderConfig | undefined =
+  import.meta.env.VITE_USE_STUB_PROVIDERS === "true"
+    ? { video: "stub", lipsync: "stub" }
+    : undefined;
+
+const Index = () => {
+  const { user, loading: authLoading } = useAuth();
+  const { profile } = useProfile(user?.id);
+  // Reattach to an assembly still running in this tab after a route change
+  const [step, setStep] = useState<Step>(() => (activeClientAssembly() ? "generating" : "emotion"));
+  const [emotion, setEmotion] = useState<Emotion | null>(null);
+  const [uploads, setUploads] = useState<UploadState>(INITIAL_UPLOADS);
+  const [assets, setAssets] = useState<UploadedAssets | null>(null);
+  const [jobId, setJobId] = useState<string | null>(activeClientAssembly);
+  const [storyboard, setStoryboard] = useState<StoryboardScene[] | null>(null);
+  const [captions, setCaptions] = useState<CaptionTrack | null>(null);
+  const { job } = useJob(jobId);
+  const assembly = useClientAssembly(jobId);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [reopenedJobId, setReopenedJobId] = useState<string | null>(null);
+  // The finished job a new version in review was made from
+  const [regeneratedFrom, setRegeneratedFrom] = useState<string | null>(null);
+  const [paywall, setPaywall] = useState<PaywallState | null>(null);
+
+  // Open a job from the library: finished jobs land on the result, unfinished ones on their progress
+  const requestedJobId = searchParams.get("job");
+  useEffect(() => {
+    if (!requestedJobId) return;
+    setJobId(requestedJobId);
+    setReopenedJobId(requestedJobId);
+    setStep("generating");
+    setSearchParams({}, { replace: true });
+  }, [requestedJobId, setSearchParams]);
+
+  // A reopened job still waiting on storyboard review goes back to the review step
+  useEffect(() => {
+    if (!job || job.id !== reopenedJobId) return;
+    setReopenedJobId(null);
+    if (job.status === "storyboard_ready" && job.storyboard) {
+      setStoryboard(job.storyboard);
+      setCaptions(job.captions ?? null);
+      setStep("storyboard");
+    }
+  }, [job, reopenedJobId]);
+
+  // Assemble in the browser once the backend has produced every clip;
+  // server-mode jobs are picked up by the assembly worker instead
+  useEffect(() => {
+    if (!job || job.status !== "ready_for_assembly" || !job.assembly_manifest) return;
+    if (job.assembly_mode === "server") return;
+    startClientAssembly(job);
+  }, [job]);
+
+  useEffect(() => {
+    if (step === "generating" && job?.status === "done" && job.result_url) {
+      setStep("result");
+    }
+  }, [step, job?.status, job?.result_url]);
+
+  if (authLoading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-background">
+        <div className="h-12 w-12 animate-spin rounded-full border-4 border-primary border-t-transparent" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <AuthScreen />;
+  }
+
+  const plan = effectivePlan(profile);
+  const maxDurationSec = planTier(plan).max_duration_sec;
+
+  // What create-job will hold for these uploads; without an excerpt it assumes the longest the plan renders
+  const uploadCreditEstimate = uploads.audio
+    ? estimateCredits(
+        uploads.audioEnd !== null ? uploads.audioEnd - uploads.audioStart : maxDurationSec,
+        uploads.heroSegments,
+        PROVIDER_OVERRIDE
+      )
+    : null;
+
+  // The storyboard under review can't run past the end of its excerpt (a new
+  // version shares its parent's, and a reopened job has no uploads in this session)
+  const reviewExcerptSec = job?.audio_end_sec !== undefined
+    ? job.audio_end_sec - (job.audio_start_sec ?? 0)
+    : uploads.audioEnd !== null ? uploads.audioEnd - uploads.audioStart : undefined;
+
+  const uploadAsset = async (file: File, type: FileType): Promise<string> => {
+    validateFile(file, type);
+
+    const path = `${user.id}/${Date.now()}-${sanitizeFilename(file.name)}`;
+    const { error: uploadError } = await supabase.storage
+      .from(StorageBuckets.UPLOADS)
+      .upload(path, file, { contentType: file.type });
+    if (uploadError) throw uploadError;
+
+    const { data, error: signError } = await supabase.storage
+      .from(StorageBuckets.UPLOADS)
+      .createSignedUrl(path, URL_EXPIRY.UPLOAD);
+    if (signError || !data) throw signError ?? new Error("Failed to sign upload URL");
+
+    return data.signedUrl;
+  };
+
+  // Out of credits or over the plan opens the paywall; too many videos at once
+  // only needs a wait. Either way the user lands back where they were
+  const handleLimitError = (error: unknown, onBack: () => void): boolean => {
+    if (error instanceof InsufficientCreditsError || error instanceof PlanLimitError) {
+      setPaywall({ reason: error.message, onBack });
+      setStep("paywall");
+      return true;
+    }
+    if (error instanceof CooldownError) {
+      toast.error(error.message);
+      onBack();
+      return true;
+    }
+    return false;
+  };
+
+  // Create a job (a fresh plan, or a new version of an earlier job) and ask the
+  // backend for a storyboard draft to review
+  const draftStoryboard = async (request: DirectorPlan | NewVersionRequest, onFailure: () => void) => {
+    setStoryboard(null);
+    setCaptions(null);
+    setStep("storyboard");
+
+    try {
+      const { data: created, error: createError } = await supabase.functions.invoke("create-job", {
+        body: request,
+      });
+      if (createError) throw await asLimitError(createError);
+
+      setJobId(created.job_id);
+
+      const { data: drafted, error: draftError } = await supabase.functions.invoke("process-job", {
+        body: { job_id: created.job_id, stage: "storyboard" },
+      });
+      if (draftError) throw draftError;
+
+      setCaptions(drafted.captions ?? null);
+      setStoryboard(drafted.storyboard);
+    } catch (error) {
+      if (handleLimitError(error, onFailure)) return;
+      logger.withUser(user.id).error("Storyboard draft failed", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      toast.error("Failed to draft your storyboard. Please try again.");
+      onFailure();
+    }
+  };
+
+  const handleUploadContinue = async () => {
+    if (!uploads.selfie || !uploads.audio) return;
+
+    try {
+      const [selfieUrl, songUrl] = await Promise.all([
+        uploadAsset(uploads.selfie, "selfie"),
+        uploadAsset(uploads.audio, "audio"),
+      ]);
+      setAssets({ selfieUrl, songUrl });
+      setRegeneratedFrom(null);
+      await draftStoryboard(
+        {
+          emotion,
+          platform: uploads.platform,
+          export_platforms: uploads.exportPlatforms,
+          selfie_asset_url: selfieUrl,
+          selfie_focus: uploads.selfieFocus ?? undefined,
+          song_asset_url: songUrl,
+          ...(uploads.audioEnd !== null
+            ? { audio_start_sec: uploads.audioStart, audio_end_sec: uploads.audioEnd }
+            : {}),
+          beat_grid: uploads.beatGrid ?? undefined,
+          hero_segments: uploads.heroSegments.length > 0 ? uploads.heroSegments : undefined,
+          lyrics: uploads.lyrics || undefined,
+          providers: PROVIDER_OVERRIDE,
+        },
+        () => setStep("upload")
+      );
+    } catch (error) {
+      if (error instanceof FileValidationError) {
+        toast.error(error.message);
+      } else {
+        toast.error("Upload failed. Please try again.");
+      }
+    }
+  };
+
+  // Send the reviewed storyboard on for clip rendering
+  const handleGenerate = async () => {
+    if (!jobId || !storyboard) return;
+
+    clearClientAssembly(jobId);
+    setStep("generating");
+
+    const { error } = await supabase.functions.invoke("process-job", {
+      body: { job_id: jobId, storyboard, captions },
+    });
+    if (error && !handleLimitError(await asLimitError(error), () => setStep("storyboard"))) {
+      toast.error("Generation failed. Please try again.");
+    }
+  };
+
+  // A new version is a new job made from this one's uploads; back or failure returns here
+  const returnToResult = (resultJobId: string) => {
+    setRegeneratedFrom(null);
+    setJobId(resultJobId);
+    setStep("result");
+  };
+
+  const handleRegenerate = (style: StyleChip) => {
+    if (!job) return;
+    const parentJobId = job.id;
+    setRegeneratedFrom(parentJobId);
+    draftStoryboard(
+      { parent_job_id: parentJobId, style_chips: [style], providers: PROVIDER_OVERRIDE },
+      () => returnToResult(parentJobId)
+    );
+  };
+
+  // Pick an emotion for a new version; the rest is carried over from this one
+  const handleMakeAnother = () => {
+    if (!job) return;
+    setRegeneratedFrom(job.id);
+    setEmotion(job.emotion);
+    setStep("emotion");
+  };
+
+  const handleEmotionContinue = () => {
+    if (!regeneratedFrom) {
+      setStep("upload");
+      return;
+    }
+    const parentJobId = regeneratedFrom;
+    draftStoryboard(
+      { parent_job_id: parentJobId, emotion: emotion ?? undefined, providers: PROVIDER_OVERRIDE },
+      () => returnToResult(parentJobId)
+    );
+  };
+
+  const handleStartOver = () => {
+    setStep("emotion");
+    setEmotion(null);
+    setUploads(INITIAL_UPLOADS);
+    setAssets(null);
+    setJobId(null);
+    setStoryboard(null);
+    setCaptions(null);
+    setRegeneratedFrom(null);
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+
+      {step === "emotion" && (
+        <EmotionPicker
+          selectedEmotion={emotion}
+          onSelect={setEmotion}
+          onContinue={handleEmotionContinue}
+          onBack={regeneratedFrom ? () => returnToResult(regeneratedFrom) : undefined}
+        />
+      )}
+
+      {step === "upload" && (
+        <UploadScreen
+          uploads={uploads}
+          onUpdateUploads={(updates) => setUploads((prev) => ({ ...prev, ...updates }))}
+          creditEstimate={uploadCreditEstimate}
+          maxExcerptSec={maxDurationSec}
+          onContinue={handleUploadContinue}
+          onBack={() => setStep("emotion")}
+        />
+      )}
+
+      {step === "storyboard" && (
+        <StoryboardScreen
+          scenes={storyboard}
+          onUpdateScenes={setStoryboard}
+          captions={captions}
+          audioUrl={regeneratedFrom ? job && jobExcerptUrl(job) : assets && excerptUrl(assets.songUrl, uploads)}
+          bpm={regeneratedFrom ? job?.beat_grid?.bpm : uploads.beatGrid?.bpm}
+          maxDurationSec={reviewExcerptSec}
+          onUpdateCaptions={setCaptions}
+          onConfirm={handleGenerate}
+          onBack={() => (regeneratedFrom ? returnToResult(regeneratedFrom) : setStep("upload"))}
+        />
+      )}
+
+      {step === "generating" && (
+        <GenerateScreen
+          status={job?.status ?? "queued"}
+          onGenerate={handleGenerate}
+          onBack={() => setStep("storyboard")}
+          progress={job?.progress}
+          assemblyProgress={assembly?.status === "running" ? assembly.progress : undefined}
+          assemblyCancelled={assembly?.status === "cancelled" && job?.status === "ready_for_assembly"}
+          onCancelAssembly={jobId ? () => cancelClientAssembly(jobId) : undefined}
+          onResumeAssembly={() => job && restartClientAssembly(job)}
+        />
+      )}
+
+      {step === "paywall" && paywall && (
+        <PaywallScreen currentPlan={plan} reason={paywall.reason} onBack={paywall.onBack} />
+      )}
+
+      {step === "result" && job?.result_url && (
+        <ResultScreen
+          jobId={job.id}
+          userId={job.user_id}
+          rootJobId={job.root_job_id}
+          videoUrl={job.result_url}
+          aspectRatio={job.platform}
+          exports={Object.entries(job.outputs ?? {}).map(([ratio, url]) => ({
+            aspect_ratio: ratio as AspectRatio,
+            url,
+          }))}
+          captions={job.captions && job.assembly_manifest
+            ? cuesWithin(job.captions.cues, job.audio_start_sec ?? 0, job.assembly_manifest.target.duration_sec)
+            : undefined}
+          onMakeAnother={handleMakeAnother}
+          onStartOver={handleStartOver}
+          onRegenerate={handleRegenerate}
+          onSelectVersion={setJobId}
+        />
+      )}
+    </div>
+  );
+};
+
+export default Index;
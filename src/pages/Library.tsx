@@ -0,0 +1,182 @@
+import { useEffect, useRef, useState } from 'react';
+import { Link, Navigate, useNavigate } from 'react-router-dom';
+import { toast } from 'sonner';
+import { ArrowLeft, Loader2 } from 'lucide-react';
+import { useAuth } from '@/hooks/useAuth';
+import { useJobHistory, type JobHistoryFilters, type JobStatusFilter } from '@/hooks/useJobHistory';
+import { Header } from '@/components/Header';
+import { JobCard } from '@/components/JobCard';
+import { Button } from '@/components/ui/button';
+import { InsufficientCreditsError } from '@/lib/credits';
+import { EMOTIONS } from '@/lib/emotions';
+import { JobActiveError, deleteJob, refreshJobOutputs, retryJob } from '@/lib/jobActions';
+import { CooldownError, PlanLimitError } from '@/lib/limits';
+import { logger } from '@/lib/logger';
+import type { JobSummary } from '@/types/veosync';
+
+const STATUS_FILTERS: { id: JobStatusFilter; label: string }[] = [
+  { id: 'all', label: 'All' },
+  { id: 'done', label: 'Done' },
+  { id: 'in_progress', label: 'In progress' },
+  { id: 'error', label: 'Failed' },
+];
+
+export default function Library() {
+  const { user, loading: authLoading } = useAuth();
+  const navigate = useNavigate();
+  const [filters, setFilters] = useState<JobHistoryFilters>({ emotion: 'all', status: 'all' });
+  const { jobs, loading, hasMore, error, loadMore, removeJob } = useJobHistory(user?.id, filters);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  // Load the next page as the end of the grid scrolls into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel) return;
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0].isIntersecting) loadMore();
+      },
+      { rootMargin: '400px' }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [loadMore]);
+
+  if (authLoading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-background">
+        <div className="h-12 w-12 animate-spin rounded-full border-4 border-primary border-t-transparent" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Navigate to="/" replace />;
+  }
+
+  const handleOpen = async (job: JobSummary) => {
+    if (job.status === 'done') {
+      await refreshJobOutputs(job.id).catch(() => undefined);
+    }
+    navigate(`/?job=${job.id}`);
+  };
+
+  const handleRetry = async (job: JobSummary) => {
+    try {
+      await retryJob(job.id);
+      navigate(`/?job=${job.id}`);
+    } catch (error) {
+      logger.withJob(job.id, user.id).error('Retry failed', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      if (error instanceof InsufficientCreditsError || error instanceof PlanLimitError) {
+        toast.error(error.message, { action: { label: 'See plans', onClick: () => navigate('/billing') } });
+      } else if (error instanceof CooldownError) {
+        toast.error(error.message);
+      } else {
+        toast.error('Failed to restart this job. Please try again.');
+      }
+    }
+  };
+
+  const handleDelete = async (job: JobSummary) => {
+    try {
+      await deleteJob(job.id);
+      removeJob(job.id);
+      toast.success('Video deleted');
+    } catch (error) {
+      logger.withJob(job.id, user.id).error('Delete failed', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      toast.error(error instanceof JobActiveError ? error.message : 'Failed to delete this video');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+
+      <div className="mx-auto max-w-5xl px-4 pb-8 pt-20">
+        <Link
+          to="/"
+          className="mb-6 inline-flex items-center gap-2 text-muted-foreground hover:text-foreground"
+        >
+          <ArrowLeft className="h-4 w-4" />
+          Back to app
+        </Link>
+
+        <h1 className="mb-6 font-display text-4xl tracking-wider text-foreground">
+          LIBRARY
+        </h1>
+
+        <div className="mb-3 flex flex-wrap gap-2">
+          {STATUS_FILTERS.map((status) => (
+            <Button
+              key={status.id}
+              variant={filters.status === status.id ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setFilters((prev) => ({ ...prev, status: status.id }))}
+            >
+              {status.label}
+            </Button>
+          ))}
+        </div>
+        <div className="mb-8 flex flex-wrap gap-2">
+          <Button
+            variant={filters.emotion === 'all' ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => setFilters((prev) => ({ ...prev, emotion: 'all' }))}
+          >
+            Every mood
+          </Button>
+          {EMOTIONS.map((emotion) => (
+            <Button
+              key={emotion.id}
+              variant={filters.emotion === emotion.id ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setFilters((prev) => ({ ...prev, emotion: emotion.id }))}
+            >
+              {emotion.icon} {emotion.label}
+            </Button>
+          ))}
+        </div>
+
+        {error && (
+          <p className="mb-4 text-sm text-destructive">Couldn't load your videos. Please refresh the page.</p>
+        )}
+
+        {!loading && !error && jobs.length === 0 && (
+          <div className="rounded-2xl border border-border bg-card p-8 text-center">
+            <p className="mb-4 text-muted-foreground">
+              {filters.emotion === 'all' && filters.status === 'all'
+                ? "You haven't made any videos yet."
+                : 'No videos match these filters.'}
+            </p>
+            <Link to="/">
+              <Button variant="hero">MAKE ONE</Button>
+            </Link>
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 gap-4 md:grid-cols-3 lg:grid-cols-4">
+          {jobs.map((job) => (
+            <JobCard
+              key={job.id}
+              job={job}
+              onOpen={handleOpen}
+              onRetry={handleRetry}
+              onDelete={handleDelete}
+            />
+          ))}
+        </div>
+
+        <div ref={sentinelRef} className="flex justify-center py-8">
+          {loading && <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />}
+          {!loading && !hasMore && jobs.length > 0 && (
+            <p className="text-sm text-muted-foreground">That's everything.</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
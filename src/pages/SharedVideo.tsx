@@ -0,0 +1,121 @@
+import { useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { Eye, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { ASPECT_CLASSES } from '@/lib/constants';
+import { logger } from '@/lib/logger';
+import { fetchPublicShare, ShareUnavailableError } from '@/lib/shares';
+import type { PublicShare } from '@/types/veosync';
+
+// Mirror the share's card metadata for clients that do run the page
+function setMeta(attribute: 'property' | 'name', key: string, content: string) {
+  let tag = document.head.querySelector<HTMLMetaElement>(`meta[${attribute}="${key}"]`);
+  if (!tag) {
+    tag = document.createElement('meta');
+    tag.setAttribute(attribute, key);
+    document.head.appendChild(tag);
+  }
+  tag.content = content;
+}
+
+export default function SharedVideo() {
+  const { shareId } = useParams<{ shareId: string }>();
+  const [share, setShare] = useState<PublicShare | null>(null);
+  const [unavailable, setUnavailable] = useState<'not_found' | 'expired' | 'error' | null>(null);
+
+  useEffect(() => {
+    if (!shareId) return;
+    let cancelled = false;
+    fetchPublicShare(shareId)
+      .then((result) => {
+        if (!cancelled) setShare(result);
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        if (error instanceof ShareUnavailableError) {
+          setUnavailable(error.reason);
+        } else {
+          logger.error('Failed to load share', {
+            shareId,
+            error: error instanceof Error ? error.message : String(error),
+          });
+          setUnavailable('error');
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [shareId]);
+
+  useEffect(() => {
+    if (!share) return;
+    document.title = share.title;
+    setMeta('property', 'og:title', share.title);
+    setMeta('property', 'og:description', share.description);
+    setMeta('property', 'og:type', 'video.other');
+    setMeta('property', 'og:video', share.video_url);
+    if (share.poster_url) {
+      setMeta('property', 'og:image', share.poster_url);
+      setMeta('name', 'twitter:image', share.poster_url);
+    }
+  }, [share]);
+
+  if (unavailable) {
+    return (
+      <div className="flex min-h-screen flex-col items-center justify-center bg-background px-4 text-center">
+        <h1 className="mb-4 font-display text-4xl tracking-wider text-foreground">
+          {unavailable === 'expired' ? 'LINK EXPIRED' : unavailable === 'not_found' ? 'NOT FOUND' : 'SOMETHING BROKE'}
+        </h1>
+        <p className="mb-6 text-muted-foreground">
+          {unavailable === 'expired'
+            ? 'This video is no longer shared.'
+            : unavailable === 'not_found'
+              ? "We couldn't find this video."
+              : "We couldn't load this video. Please try again."}
+        </p>
+        <Link to="/">
+          <Button variant="hero">MAKE YOUR OWN</Button>
+        </Link>
+      </div>
+    );
+  }
+
+  if (!share) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-background">
+        <Loader2 className="h-10 w-10 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex min-h-screen flex-col items-center justify-center bg-background px-4 py-8">
+      <div className="w-full max-w-lg animate-fade-in">
+        <div className={`relative mb-4 overflow-hidden rounded-2xl bg-muted ${ASPECT_CLASSES[share.aspect_ratio]}`}>
+          <video
+            src={share.video_url}
+            poster={share.poster_url ?? undefined}
+            className="h-full w-full object-cover"
+            controls
+            playsInline
+            loop
+          />
+        </div>
+
+        <div className="mb-8 flex items-center justify-between text-sm text-muted-foreground">
+          <span>{share.title}</span>
+          <span className="flex items-center gap-1">
+            <Eye className="h-4 w-4" />
+            {share.view_count}
+          </span>
+        </div>
+
+        <Link to="/">
+          <Button variant="hero" size="xl" className="w-full">
+            MAKE YOUR OWN
+          </Button>
+        </Link>
+      </div>
+    </div>
+  );
+}
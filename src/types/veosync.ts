@@ -26,12 +26,27 @@ export type AssetType =
 
 export type JobStatus = 
   | 'queued'
+  | 'storyboard_ready'
   | 'running'
   | 'ready_for_assembly'
   | 'assembling'
   | 'done'
   | 'error';
 
+export type AspectRatio = '9:16' | '16:9' | '1:1' | '4:5';
+
+// Where the final video is rendered: ffmpeg.wasm in the tab, or the assembly worker
+export type AssemblyMode = 'client' | 'server';
+
+// Direction a regeneration pushes the storyboard and clips in
+export type StyleChip = 'raw' | 'cinematic' | 'intense';
+
+// Where the subject sits in a frame, as fractions of its width and height
+export interface FocusPoint {
+  x: number;
+  y: number;
+}
+
 export interface Asset {
   id: string;
   user_id: string;
@@ -49,53 +64,290 @@ export interface Job {
   lyrics?: string;
   song_url: string;
   selfie_url: string;
+  selfie_focus?: FocusPoint;
+  platform: AspectRatio;
+  export_platforms?: AspectRatio[];
+  audio_start_sec?: number;
+  audio_end_sec?: number;
+  beat_grid?: BeatGrid;
+  hero_segments?: HeroSegment[];
   result_url?: string;
+  // Signed URLs of the extra exports
+  outputs?: Partial<Record<AspectRatio, string>>;
   provider_refs: Record<string, unknown>;
+  providers?: ProviderConfig;
   error?: string;
+  storyboard?: StoryboardScene[];
+  captions?: CaptionTrack;
+  progress?: JobProgress;
   assembly_manifest?: AssemblyManifest;
+  assembly_mode: AssemblyMode;
+  // Set on new versions of an earlier job, which reuse its uploads
+  parent_job_id?: string;
+  // The original every version descends from; unset on originals
+  root_job_id?: string;
+  version: number;
+  // The version shared links play
+  is_current: boolean;
+  style_chips: StyleChip[];
+  created_at: string;
+  updated_at: string;
+}
+
+// One version in a job's lineage, as listed on the result screen
+export interface JobVersion {
+  id: string;
+  parent_job_id: string | null;
+  version: number;
+  is_current: boolean;
+  status: JobStatus;
+  emotion: Emotion;
+  style_chips: StyleChip[];
+  // Storyboard scenes changed during review, once rendered
+  scenes_edited: number | null;
+  result_url: string | null;
+  created_at: string;
+}
+
+// A row in the job history, with a freshly signed thumbnail
+export interface JobSummary {
+  id: string;
+  status: JobStatus;
+  emotion: Emotion;
+  platform: AspectRatio;
+  duration_sec: number | null;
+  thumbnail_url: string | null;
+  thumbnail_type: 'image' | 'video';
+  error?: string;
   created_at: string;
+}
+
+// The owner's view of a public link to a finished job
+export interface Share {
+  id: string;
+  job_id: string;
+  expires_at: string | null;
+  revoked_at: string | null;
+  view_count: number;
+  created_at: string;
+}
+
+// What the share function hands a viewer at /v/:shareId
+export interface PublicShare {
+  id: string;
+  title: string;
+  description: string;
+  video_url: string;
+  poster_url: string | null;
+  aspect_ratio: AspectRatio;
+  view_count: number;
+  expires_at: string | null;
+}
+
+// Constant-tempo beat grid of the song; times are seconds from its start
+export interface BeatGrid {
+  bpm: number;
+  beats: number[];
+  downbeats: number[];
+  confidence: number;
+}
+
+// Part of the song the performer lip-syncs; seconds from the start of the song
+export interface HeroSegment {
+  start_sec: number;
+  end_sec: number;
+}
+
+export type StoryboardSceneType = 'avatar' | 'broll';
+
+export type TransitionType = 'cut' | 'crossfade' | 'whip-pan' | 'flash' | 'glitch';
+
+export interface StoryboardScene {
+  type: StoryboardSceneType;
+  prompt: string;
+  duration_sec: number;
+  // Transition into this scene; unset follows the emotion's editing grammar
+  transition?: TransitionType;
+}
+
+// Lyric timing, in seconds from the start of the song
+export interface CaptionWord {
+  text: string;
+  start: number;
+  end: number;
+}
+
+export interface CaptionCue {
+  start: number;
+  end: number;
+  text: string;
+  words: CaptionWord[];
+}
+
+// aligned: matched to a transcript, estimated: evenly spaced, manual: set in the timing editor
+export type CaptionSource = 'aligned' | 'estimated' | 'manual';
+
+export interface CaptionTrack {
+  source: CaptionSource;
+  cues: CaptionCue[];
+}
+
+export type JobStepStatus = 'pending' | 'running' | 'done' | 'error';
+
+export interface JobStep {
+  id: string;
+  job_id: string;
+  step_key: string;
+  position: number;
+  status: JobStepStatus;
+  attempts: number;
+  input: Record<string, unknown>;
+  output: Record<string, unknown>;
+  error?: string;
+  started_at?: string;
+  completed_at?: string;
+}
+
+export type ProgressStage = 'lipsync' | 'broll' | 'manifest' | 'ready';
+
+// Per-scene render state published by process-job while the job is running
+export interface SceneProgress {
+  index: number;
+  type: StoryboardSceneType;
+  // Null when nothing renders for the scene (an avatar scene outside every hero segment)
+  step_key: string | null;
+  status: JobStepStatus;
+  provider: string | null;
+  operation_id: string | null;
+}
+
+export interface JobProgress {
+  stage: ProgressStage;
+  scenes_total: number;
+  scenes_completed: number;
+  eta_sec: number | null;
+  scenes: SceneProgress[];
   updated_at: string;
 }
 
+// In-browser assembly, reported per phase; `progress` is 0..1 within the phase
+export type AssemblyPhase = 'download' | 'encode' | 'upload';
+
+export interface AssemblyProgress {
+  phase: AssemblyPhase;
+  progress: number;
+  // Set while encoding: which of the job's renders is in progress
+  render?: {
+    index: number;
+    total: number;
+    aspect_ratio: AspectRatio;
+  };
+}
+
+export type KenBurnsMotion = 'zoom-in' | 'zoom-out' | 'pan-left' | 'pan-right' | 'pan-up' | 'pan-down';
+
 export interface AssemblyClip {
   url: string;
   type: AssetType;
   duration_sec?: number;
+  // Position on the output timeline, in seconds
   start_time?: number;
+  // Seconds into the source clip where playback starts
+  in_sec?: number;
+  // How a clip shorter than its slot is extended
+  fill?: 'loop' | 'freeze';
+  // Transition from the previous clip into this one; overrides the emotion default
+  transition?: {
+    type: TransitionType;
+    duration_sec?: number;
+  };
+  // Pan/zoom for still-image clips; overrides the emotion default
+  motion?: {
+    type: KenBurnsMotion;
+    // Scale at the most zoomed-in point, e.g. 1.2
+    zoom?: number;
+  };
+  // Kept in frame when the clip is cropped to the output aspect ratio
+  focus?: FocusPoint;
+}
+
+export interface AssemblyUploadTarget {
+  bucket: string;
+  path: string;
 }
 
 export interface AssemblyManifest {
+  emotion?: Emotion;
   clips: AssemblyClip[];
   audio_url: string;
+  // Excerpt of audio_url to use; the video starts at start_sec of the song
+  audio_window?: {
+    start_sec: number;
+    end_sec: number;
+  };
+  captions?: CaptionTrack & { style: Emotion };
   target: {
-    aspect_ratio: '9:16';
+    aspect_ratio: AspectRatio;
     duration_sec: number;
   };
-  upload_target: {
-    bucket: string;
-    path: string;
-  };
+  upload_target: AssemblyUploadTarget;
+  // Extra aspect ratios rendered from the same clips
+  exports?: {
+    aspect_ratio: AspectRatio;
+    upload_target: AssemblyUploadTarget;
+  }[];
+}
+
+// Per-job provider selection; unset fields use the backend defaults
+export interface ProviderConfig {
+  video?: 'veo' | 'stub';
+  lipsync?: 'syncso' | 'stub';
+}
+
+// Remake a job from the same uploads with a different emotion and/or extra styles
+export interface NewVersionRequest {
+  parent_job_id: string;
+  emotion?: Emotion;
+  style_chips?: StyleChip[];
+  providers?: ProviderConfig;
+  assembly?: AssemblyMode;
 }
 
 export interface DirectorPlan {
   emotion: Emotion;
-  platform: '9:16';
+  platform: AspectRatio;
+  export_platforms?: AspectRatio[];
   selfie_asset_url: string;
+  selfie_focus?: FocusPoint;
   song_asset_url: string;
+  audio_start_sec?: number;
+  audio_end_sec?: number;
+  beat_grid?: BeatGrid;
   lyrics?: string;
-  hero_segments?: number[];
-  style_chips?: string[];
+  hero_segments?: HeroSegment[];
+  style_chips?: StyleChip[];
   output?: {
     duration_sec?: number;
   };
+  providers?: ProviderConfig;
+  // Unset uses the plan's default
+  assembly?: AssemblyMode;
 }
 
 export interface UploadState {
   selfie: File | null;
   selfiePreview: string | null;
+  selfieFocus: FocusPoint | null;
   audio: File | null;
   audioName: string | null;
+  audioDuration: number | null;
+  audioStart: number;
+  audioEnd: number | null;
+  beatGrid: BeatGrid | null;
+  heroSegments: HeroSegment[];
   lyrics: string;
+  platform: AspectRatio;
+  exportPlatforms: AspectRatio[];
 }
 
 export interface Subscription {
@@ -106,9 +358,44 @@ export interface Subscription {
   updated_at: string;
 }
 
+// Amounts are in the currency's smallest unit, as Stripe sends them
+export interface Refund {
+  amount: number;
+  currency: string;
+  full: boolean;
+  refunded_at: string;
+}
+
+// One movement of a user's credits; amount is negative for a hold
+export interface CreditEntry {
+  id: string;
+  job_id: string | null;
+  kind: 'grant' | 'reserve' | 'settle' | 'refund';
+  amount: number;
+  balance_after: number;
+  created_at: string;
+}
+
+// What switching tiers costs today; amounts are in the currency's smallest unit
+export interface PlanChangePreview {
+  plan: 'creator' | 'pro';
+  upgrade: boolean;
+  // Negative for a downgrade, credited to the next invoice
+  amount: number;
+  currency: string;
+  // Pass back when confirming so the charge matches the preview
+  proration_date: number;
+}
+
 export interface Profile {
   id: string;
   stripe_customer_id?: string;
   plan: 'free' | 'creator' | 'pro';
+  // Set while a renewal payment is failing; paid features stay on until the grace period ends
+  past_due_since?: string;
+  grace_period_ends_at?: string;
+  // Set when a trial is about to end with no card on file
+  trial_ends_at?: string;
+  last_refund?: Refund;
   created_at: string;
 }
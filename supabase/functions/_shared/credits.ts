@@ -0,0 +1,115 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+
+// Credits per second of footage, by provider id (mirrors CREDIT_COSTS in src/lib/constants.ts)
+const PROVIDER_CREDITS_PER_SEC: Record<string, number> = {
+  veo: 2,
+  syncso: 1,
+  stub: 0,
+};
+
+// Storyboard and caption drafting, charged once per job
+export const PLANNING_CREDITS = 2;
+
+// Provider ids a job renders with: its own choice, then the env defaults (mirrors resolveProviders in process-job/providers)
+export function providerIds(config: { video?: string; lipsync?: string } | null | undefined) {
+  return {
+    video: config?.video ?? Deno.env.get("VIDEO_PROVIDER") ?? "veo",
+    lipsync: config?.lipsync ?? Deno.env.get("LIPSYNC_PROVIDER") ?? "syncso",
+  };
+}
+
+// A provider missing from the table is priced like the dearest one, never for free
+export const providerRate = (providerId: string): number =>
+  PROVIDER_CREDITS_PER_SEC[providerId] ?? Math.max(...Object.values(PROVIDER_CREDITS_PER_SEC));
+
+export interface CreditEstimateInput {
+  // Length of the finished video
+  duration_sec: number;
+  // Seconds the performer is lip-synced for: the hero segments, or the whole video
+  lipsync_sec: number;
+  video_provider: string;
+  lipsync_provider: string;
+}
+
+/**
+ * The most a job can cost before its storyboard exists: every second could
+ * be a b-roll clip, and every lip-synced second is rendered as well. The
+ * job settles at its real cost once rendered, handing back the difference.
+ */
+export function estimateJobCredits(input: CreditEstimateInput): number {
+  return Math.ceil(
+    PLANNING_CREDITS +
+      input.duration_sec * providerRate(input.video_provider) +
+      input.lipsync_sec * providerRate(input.lipsync_provider)
+  );
+}
+
+// Top up to the plan's allowance once per source (an invoice, or a free month); null if already granted
+export async function grantCredits(
+  client: SupabaseClient,
+  userId: string,
+  allowance: number,
+  source: string
+): Promise<number | null> {
+  const { data, error } = await client.rpc("grant_credits", {
+    p_user_id: userId,
+    p_allowance: allowance,
+    p_source: source,
+  });
+  if (error) {
+    throw new Error(`Failed to grant credits to user ${userId}: ${error.message}`);
+  }
+  return data as number | null;
+}
+
+// Add a fixed amount on top of the balance once per source; null if already granted
+export async function addCredits(
+  client: SupabaseClient,
+  userId: string,
+  amount: number,
+  source: string
+): Promise<number | null> {
+  const { data, error } = await client.rpc("add_credits", {
+    p_user_id: userId,
+    p_amount: amount,
+    p_source: source,
+  });
+  if (error) {
+    throw new Error(`Failed to add credits for user ${userId}: ${error.message}`);
+  }
+  return data as number | null;
+}
+
+// False when the balance can't cover the hold; a job's earlier holds count toward it
+export async function reserveJobCredits(
+  client: SupabaseClient,
+  userId: string,
+  jobId: string,
+  amount: number
+): Promise<boolean> {
+  const { data, error } = await client.rpc("reserve_job_credits", {
+    p_user_id: userId,
+    p_job_id: jobId,
+    p_amount: amount,
+  });
+  if (error) {
+    throw new Error(`Failed to reserve credits for job ${jobId}: ${error.message}`);
+  }
+  return data === true;
+}
+
+// Keep what the job cost (0 on failure) and hand the rest of its hold back
+export async function releaseJobCredits(client: SupabaseClient, jobId: string, keep: number): Promise<number> {
+  const { data, error } = await client.rpc("release_job_credits", {
+    p_job_id: jobId,
+    p_keep: keep,
+  });
+  if (error) {
+    throw new Error(`Failed to release credits for job ${jobId}: ${error.message}`);
+  }
+  return (data as number | null) ?? 0;
+}
+
+// The month a free plan's allowance is for, e.g. free:<user id>:2026-02
+export const freeGrantSource = (userId: string, now = new Date()) =>
+  `free:${userId}:${now.toISOString().slice(0, 7)}`;
@@ -0,0 +1,129 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { PLAN_ENTITLEMENTS, RATE_LIMITS, type PlanId } from "./plans.ts";
+
+// A job that hasn't moved in this long is presumed dead and stops counting toward concurrency
+const STALE_JOB_MS = 30 * 60 * 1000;
+
+// How long to suggest waiting when a slot frees up whenever a render finishes
+const CONCURRENCY_RETRY_SEC = 60;
+
+/**
+ * A limit the request ran into. 429s clear on their own (retry_after_sec
+ * says when); 402s need a bigger plan. The client keys its paywall and
+ * cooldown messages off code and limit.
+ */
+export interface LimitViolation {
+  status: 402 | 429;
+  code: "rate_limited" | "concurrency_limited" | "plan_limit";
+  limit: "hourly" | "daily" | "concurrent" | "max_duration";
+  error: string;
+  max: number;
+  plan: PlanId;
+  retry_after_sec?: number;
+}
+
+export function limitResponse(violation: LimitViolation, corsHeaders: Record<string, string>): Response {
+  const { status, ...body } = violation;
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      ...corsHeaders,
+      "Content-Type": "application/json",
+      ...(violation.retry_after_sec !== undefined ? { "Retry-After": String(violation.retry_after_sec) } : {}),
+    },
+  });
+}
+
+const planLabel = (plan: PlanId) => plan.charAt(0).toUpperCase() + plan.slice(1);
+
+// Longest video the plan renders
+export function checkDuration(plan: PlanId, durationSec: number): LimitViolation | null {
+  const max = PLAN_ENTITLEMENTS[plan].max_duration_sec;
+  if (durationSec <= max) return null;
+  return {
+    status: 402,
+    code: "plan_limit",
+    limit: "max_duration",
+    error: `${planLabel(plan)} videos can be up to ${max} seconds`,
+    max,
+    plan,
+  };
+}
+
+/**
+ * Count a new job toward the plan's hourly and day allowance, unless it's
+ * already used up. Versions count like any other job, since each one
+ * renders again. Checked and recorded in one locked step (see
+ * record_job_creation), in job_creations, which deleting a job doesn't touch.
+ */
+export async function recordJobCreation(
+  client: SupabaseClient,
+  userId: string,
+  jobId: string,
+  plan: PlanId
+): Promise<LimitViolation | null> {
+  const free = plan === "free";
+  const { data, error } = await client.rpc("record_job_creation", {
+    p_user_id: userId,
+    p_job_id: jobId,
+    p_hourly_max: free ? RATE_LIMITS.FREE_JOBS_PER_HOUR : RATE_LIMITS.PAID_JOBS_PER_HOUR,
+    p_daily_max: free ? RATE_LIMITS.FREE_JOBS_PER_DAY : RATE_LIMITS.PAID_JOBS_PER_DAY,
+  });
+  if (error) {
+    throw new Error(`Failed to count jobs for user ${userId}: ${error.message}`);
+  }
+  if (!data) return null;
+
+  const { limit, max, opens_at } = data as { limit: "hourly" | "daily"; max: number; opens_at: string };
+  return {
+    status: 429,
+    code: "rate_limited",
+    limit,
+    error: `You've made ${max} videos in the last ${limit === "hourly" ? "hour" : "day"}`,
+    max,
+    plan,
+    retry_after_sec: Math.max(1, Math.ceil((Date.parse(opens_at) - Date.now()) / 1000)),
+  };
+}
+
+// Hand back the slot of a job that wasn't created after all; a failure is only logged
+export async function releaseJobCreation(client: SupabaseClient, userId: string, jobId: string): Promise<void> {
+  const { error } = await client.from("job_creations").delete().eq("job_id", jobId);
+  if (error) {
+    console.error(`[${new Date().toISOString()}] LIMITS: Failed to release job ${jobId} for user ${userId}: ${error.message}`);
+  }
+}
+
+/**
+ * Other jobs of the user's that are rendering now. Client-assembled jobs
+ * stop counting once their clips are ready, since the browser does the rest.
+ */
+export async function checkConcurrency(
+  client: SupabaseClient,
+  userId: string,
+  plan: PlanId,
+  jobId: string
+): Promise<LimitViolation | null> {
+  const { count, error } = await client
+    .from("jobs")
+    .select("id", { count: "exact", head: true })
+    .eq("user_id", userId)
+    .neq("id", jobId)
+    .gte("updated_at", new Date(Date.now() - STALE_JOB_MS).toISOString())
+    .or("status.in.(running,assembling),and(status.eq.ready_for_assembly,assembly_mode.eq.server)");
+  if (error) {
+    throw new Error(`Failed to count running jobs for user ${userId}: ${error.message}`);
+  }
+
+  const max = PLAN_ENTITLEMENTS[plan].concurrent_jobs;
+  if ((count ?? 0) < max) return null;
+  return {
+    status: 429,
+    code: "concurrency_limited",
+    limit: "concurrent",
+    error: max === 1 ? "Another video is still rendering" : `${max} videos are already rendering`,
+    max,
+    plan,
+    retry_after_sec: CONCURRENCY_RETRY_SEC,
+  };
+}
@@ -0,0 +1,75 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+
+// Plan tiers and what each unlocks (mirrors PLAN_CATALOG in src/lib/constants.ts)
+export type PlanId = "free" | "creator" | "pro";
+
+export interface PlanEntitlements {
+  max_duration_sec: number;
+  resolution: "720p" | "1080p" | "4k";
+  // Higher runs first when the pipeline is busy
+  priority: number;
+  // Granted each billing period; see _shared/credits.ts for what a job costs
+  monthly_credits: number;
+  // Jobs rendering at the same time
+  concurrent_jobs: number;
+}
+
+export const PLAN_ENTITLEMENTS: Record<PlanId, PlanEntitlements> = {
+  free: { max_duration_sec: 15, resolution: "720p", priority: 0, monthly_credits: 100, concurrent_jobs: 1 },
+  creator: { max_duration_sec: 30, resolution: "1080p", priority: 1, monthly_credits: 1500, concurrent_jobs: 2 },
+  pro: { max_duration_sec: 60, resolution: "4k", priority: 2, monthly_credits: 6000, concurrent_jobs: 4 },
+};
+
+// Jobs a user can create (mirrors RATE_LIMITS in src/lib/constants.ts)
+export const RATE_LIMITS = {
+  FREE_JOBS_PER_HOUR: 10,
+  PAID_JOBS_PER_HOUR: 50,
+  FREE_JOBS_PER_DAY: 20,
+  PAID_JOBS_PER_DAY: 200,
+};
+
+// Tiers sold through Stripe, cheapest first
+export const PAID_PLANS: PlanId[] = ["creator", "pro"];
+
+export const isPaidPlan = (value: unknown): value is PlanId => PAID_PLANS.includes(value as PlanId);
+
+// A plan whose renewal failed stays on until its grace period runs out
+export function effectivePlan(profile: { plan: string | null; grace_period_ends_at: string | null } | null): PlanId {
+  if (!profile?.plan || !(profile.plan in PLAN_ENTITLEMENTS)) return "free";
+  const graceEnded = profile.grace_period_ends_at !== null && Date.parse(profile.grace_period_ends_at) < Date.now();
+  return graceEnded ? "free" : profile.plan as PlanId;
+}
+
+// The plan a user's jobs run under right now; lookup failures throw rather than fall back to free
+export async function loadUserPlan(client: SupabaseClient, userId: string): Promise<PlanId> {
+  const { data, error } = await client
+    .from("profiles")
+    .select("plan, grace_period_ends_at")
+    .eq("id", userId)
+    .maybeSingle();
+  if (error) {
+    throw new Error(`Failed to load plan for user ${userId}: ${error.message}`);
+  }
+  return effectivePlan(data);
+}
+
+// Each paid plan's price comes from STRIPE_PRICE_ID_<PLAN>, so test and live keys need no code change
+export function priceIdFor(plan: PlanId): string | null {
+  return Deno.env.get(`STRIPE_PRICE_ID_${plan.toUpperCase()}`) ?? null;
+}
+
+/**
+ * The plan a Stripe price pays for. Prices outside the catalog predate it,
+ * when the only paid tier was creator, so they stay on creator.
+ */
+export function planForPrice(priceId: string | null): PlanId {
+  const plan = PAID_PLANS.find((candidate) => priceId !== null && priceIdFor(candidate) === priceId);
+  if (!plan) {
+    console.warn(`[${new Date().toISOString()}] PLANS: Price ${priceId} is not in the catalog, treating it as creator`);
+    return "creator";
+  }
+  return plan;
+}
+
+// Moving up a tier charges the difference now; moving down credits it to the next invoice
+export const isUpgrade = (from: PlanId, to: PlanId) => PAID_PLANS.indexOf(to) > PAID_PLANS.indexOf(from);
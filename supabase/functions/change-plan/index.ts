@@ -0,0 +1,139 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import Stripe from "https://esm.sh/stripe@14.21.0";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { isPaidPlan, isUpgrade, planForPrice, priceIdFor } from "../_shared/plans.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+/**
+ * Move an existing subscription to another tier. With preview set, returns
+ * what the switch costs today without making it; the client passes the
+ * preview's proration_date back so the charge matches what was shown.
+ * The plan itself is written by stripe-webhook when Stripe confirms.
+ */
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_ANON_KEY") ?? ""
+    );
+
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      throw new Error("No authorization header");
+    }
+
+    const { data: { user }, error: authError } = await supabaseClient.auth.getUser(
+      authHeader.replace("Bearer ", "")
+    );
+
+    if (authError || !user) {
+      throw new Error("Unauthorized");
+    }
+
+    // Profiles are only readable by their owner and only writable by the server
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+    );
+
+    const { plan, preview, proration_date } = await req.json();
+    if (!isPaidPlan(plan)) {
+      return jsonResponse({ error: "Unknown plan" }, 400);
+    }
+    const priceId = priceIdFor(plan);
+    if (!priceId) {
+      throw new Error(`No price ID configured for ${plan}`);
+    }
+
+    const { data: profile } = await supabaseAdmin
+      .from("profiles")
+      .select("stripe_customer_id")
+      .eq("id", user.id)
+      .single();
+
+    if (!profile?.stripe_customer_id) {
+      return jsonResponse({ error: "No subscription to change" }, 409);
+    }
+
+    const stripe = new Stripe(Deno.env.get("STRIPE_SECRET_KEY") ?? "", {
+      apiVersion: "2023-10-16",
+    });
+
+    const { data: subscriptions } = await stripe.subscriptions.list({
+      customer: profile.stripe_customer_id,
+      status: "all",
+      limit: 10,
+    });
+    const subscription = subscriptions.find((candidate: Stripe.Subscription) =>
+      ["active", "trialing", "past_due"].includes(candidate.status)
+    );
+    if (!subscription) {
+      return jsonResponse({ error: "No subscription to change" }, 409);
+    }
+    // The failed invoice has to be settled first, or the proration lands on top of it
+    if (subscription.status === "past_due") {
+      return jsonResponse({ error: "Update your card before changing plans" }, 409);
+    }
+
+    const item = subscription.items.data[0];
+    const currentPlan = planForPrice(item.price.id);
+    if (item.price.id === priceId) {
+      return jsonResponse({ error: `Already on the ${plan} plan` }, 409);
+    }
+
+    const upgrade = isUpgrade(currentPlan, plan);
+    const prorationBehavior = upgrade ? "always_invoice" : "create_prorations";
+    const prorationDate = typeof proration_date === "number" ? proration_date : Math.floor(Date.now() / 1000);
+
+    if (preview) {
+      const invoice = await stripe.invoices.retrieveUpcoming({
+        customer: profile.stripe_customer_id,
+        subscription: subscription.id,
+        subscription_items: [{ id: item.id, price: priceId }],
+        subscription_proration_behavior: prorationBehavior,
+        subscription_proration_date: prorationDate,
+      });
+      // Only the proration lines; the rest of the upcoming invoice is next period's renewal
+      const amount = invoice.lines.data
+        .filter((line: Stripe.InvoiceLineItem) => line.proration)
+        .reduce((sum: number, line: Stripe.InvoiceLineItem) => sum + line.amount, 0);
+
+      return jsonResponse({
+        plan,
+        upgrade,
+        amount,
+        currency: invoice.currency,
+        proration_date: prorationDate,
+      });
+    }
+
+    const updated = await stripe.subscriptions.update(subscription.id, {
+      items: [{ id: item.id, price: priceId }],
+      proration_behavior: prorationBehavior,
+      proration_date: prorationDate,
+      // An upgrade that can't be charged is rolled back instead of leaving the subscription past due
+      payment_behavior: upgrade ? "pending_if_incomplete" : "allow_incomplete",
+    });
+
+    console.log("Changed plan:", subscription.id, currentPlan, "->", plan);
+
+    return jsonResponse({ plan, upgrade, pending: Boolean(updated.pending_update) });
+  } catch (error) {
+    console.error("Change plan error:", error);
+    return jsonResponse({ error: error instanceof Error ? error.message : "Unknown error" }, 500);
+  }
+});
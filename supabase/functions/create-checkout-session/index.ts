@@ -1,12 +1,16 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import Stripe from "https://esm.sh/stripe@14.21.0";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { isPaidPlan, priceIdFor } from "../_shared/plans.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
+// Subscriptions that still bill the customer
+const LIVE_STATUSES = ["active", "trialing", "past_due"];
+
 serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
@@ -31,14 +35,28 @@ serve(async (req) => {
       throw new Error("Unauthorized");
     }
 
+    // Profiles are only readable by their owner and only writable by the server
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+    );
+
     const stripe = new Stripe(Deno.env.get("STRIPE_SECRET_KEY") ?? "", {
       apiVersion: "2023-10-16",
     });
 
-    const { price_id } = await req.json();
-    
+    // price_id "default" is what clients sent before there was more than one plan
+    const { plan, price_id } = await req.json();
+    const selectedPlan = plan ?? (price_id === "default" ? "creator" : undefined);
+    if (!isPaidPlan(selectedPlan)) {
+      return new Response(
+        JSON.stringify({ error: "Unknown plan" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
     // Get or create Stripe customer
-    const { data: profile } = await supabaseClient
+    const { data: profile } = await supabaseAdmin
       .from("profiles")
       .select("stripe_customer_id")
       .eq("id", user.id)
@@ -53,19 +71,28 @@ serve(async (req) => {
       });
       customerId = customer.id;
 
-      await supabaseClient
+      // stripe-webhook finds the user by this ID, so checkout can't go ahead without it
+      const { error: linkError } = await supabaseAdmin
         .from("profiles")
         .update({ stripe_customer_id: customerId })
         .eq("id", user.id);
+      if (linkError) {
+        throw new Error(`Failed to link Stripe customer: ${linkError.message}`);
+      }
     }
 
-    // Use default price if not specified
-    const priceId = price_id === "default" 
-      ? Deno.env.get("STRIPE_PRICE_ID_CREATOR") 
-      : price_id;
+    // Switching tiers goes through change-plan, which prorates the existing subscription
+    const existing = await stripe.subscriptions.list({ customer: customerId, status: "all", limit: 10 });
+    if (existing.data.some((subscription: Stripe.Subscription) => LIVE_STATUSES.includes(subscription.status))) {
+      return new Response(
+        JSON.stringify({ error: "Already subscribed, change plans instead" }),
+        { status: 409, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
 
+    const priceId = priceIdFor(selectedPlan);
     if (!priceId) {
-      throw new Error("No price ID configured");
+      throw new Error(`No price ID configured for ${selectedPlan}`);
     }
 
     const session = await stripe.checkout.sessions.create({
@@ -85,7 +112,7 @@ serve(async (req) => {
       },
     });
 
-    console.log("Created checkout session:", session.id);
+    console.log("Created checkout session:", session.id, selectedPlan);
 
     return new Response(JSON.stringify({ url: session.url }), {
       headers: { ...corsHeaders, "Content-Type": "application/json" },
@@ -1,5 +1,8 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { estimateJobCredits, freeGrantSource, grantCredits, providerIds, reserveJobCredits } from "../_shared/credits.ts";
+import { checkDuration, limitResponse, recordJobCreation, releaseJobCreation } from "../_shared/limits.ts";
+import { PLAN_ENTITLEMENTS, loadUserPlan, type PlanId } from "../_shared/plans.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -27,12 +30,134 @@ validateEnvVars();
 interface DirectorPlan {
   emotion: string;
   platform: string;
+  export_platforms?: string[];
   selfie_asset_url: string;
+  selfie_focus?: { x: number; y: number };
   song_asset_url: string;
+  audio_start_sec?: number;
+  audio_end_sec?: number;
+  beat_grid?: BeatGrid;
   lyrics?: string;
-  hero_segments?: number[];
+  hero_segments?: HeroSegment[];
   style_chips?: string[];
+  // Set on new versions of an earlier job, which reuse its uploads
+  parent_job_id?: string;
+  root_job_id?: string;
   output?: { duration_sec?: number };
+  providers?: { video?: string; lipsync?: string };
+  assembly?: AssemblyMode;
+}
+
+// Song window the performer lip-syncs (mirrors HeroSegment in src/types/veosync.ts)
+interface HeroSegment {
+  start_sec: number;
+  end_sec: number;
+}
+
+interface BeatGrid {
+  bpm: number;
+  beats: number[];
+  downbeats: number[];
+  confidence: number;
+}
+
+// Beat grid payload bound (mirrors BEAT_GRID_LIMITS in src/lib/constants.ts)
+const MAX_BEATS = 2000;
+
+const isTimeList = (value: unknown): value is number[] =>
+  Array.isArray(value) &&
+  value.length <= MAX_BEATS &&
+  value.every((t) => typeof t === "number" && Number.isFinite(t) && t >= 0);
+
+// Output aspect ratios (mirrors Platform in src/lib/constants.ts)
+const ASPECT_RATIOS = ["9:16", "16:9", "1:1", "4:5"];
+
+// Where the final video is rendered (mirrors AssemblyMode in src/lib/constants.ts)
+type AssemblyMode = "client" | "server";
+const ASSEMBLY_MODES = ["client", "server"];
+
+// Paid plans render on the assembly worker by default; free plans always assemble in the browser
+const PLAN_ASSEMBLY: Record<string, { default: AssemblyMode; server: boolean }> = {
+  free: { default: "client", server: false },
+  creator: { default: "server", server: true },
+  pro: { default: "server", server: true },
+};
+
+// Style directions a regeneration can ask for (mirrors STYLE_CHIPS in src/lib/constants.ts)
+const STYLE_CHIPS = ["raw", "cinematic", "intense"];
+
+const isStyleChipList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((chip) => STYLE_CHIPS.includes(chip));
+
+// Uploads stay in the bucket, but the parent's signed links may have lapsed
+const UPLOAD_URL_TTL = 3600;
+const SIGNED_PATH = "/storage/v1/object/sign/";
+// Where users upload, each under a folder named by their user ID (mirrors STORAGE_BUCKETS in src/lib/constants.ts)
+const UPLOADS_BUCKET = "uploads";
+
+const isFraction = (value: unknown): value is number =>
+  typeof value === "number" && value >= 0 && value <= 1;
+
+// Audio excerpt bounds (mirrors AUDIO_EXCERPT in src/lib/constants.ts)
+const AUDIO_EXCERPT = {
+  MIN_SEC: 10,
+  MAX_SEC: 60,
+};
+
+// Hero segment bounds (mirrors HERO_SEGMENT_LIMITS in src/lib/constants.ts)
+const HERO_SEGMENT_LIMITS = {
+  MAX_SEGMENTS: 4,
+  MIN_SEC: 2,
+  MAX_SEC: 20,
+};
+
+// Length of the video a plan asks for, when it's known before the storyboard
+function requestedDuration(plan: DirectorPlan): number | null {
+  if (plan.audio_start_sec !== undefined && plan.audio_end_sec !== undefined) {
+    return plan.audio_end_sec - plan.audio_start_sec;
+  }
+  return plan.output?.duration_sec ?? null;
+}
+
+// Worst-case credits for a plan, held until the render settles what it really cost
+function creditEstimate(plan: DirectorPlan, userPlan: PlanId): number {
+  // The whole song renders at most as long as the user's plan allows
+  const duration = requestedDuration(plan) ?? PLAN_ENTITLEMENTS[userPlan].max_duration_sec;
+  const heroSec = (plan.hero_segments ?? []).reduce((sum, segment) => sum + segment.end_sec - segment.start_sec, 0);
+  const providers = providerIds(plan.providers);
+  return estimateJobCredits({
+    duration_sec: duration,
+    lipsync_sec: heroSec || duration,
+    video_provider: providers.video,
+    lipsync_provider: providers.lipsync,
+  });
+}
+
+// Sorted segments inside the excerpt (or song), each within bounds and none overlapping
+function validateHeroSegments(value: unknown, start: number | undefined, end: number | undefined): HeroSegment[] {
+  if (!Array.isArray(value) || value.length > HERO_SEGMENT_LIMITS.MAX_SEGMENTS) {
+    throw new Error(`Invalid 'hero_segments' field, expected at most ${HERO_SEGMENT_LIMITS.MAX_SEGMENTS} segments`);
+  }
+  const segments = value
+    .map((raw) => (raw ?? {}) as Record<string, unknown>)
+    .map((raw) => ({ start_sec: raw.start_sec, end_sec: raw.end_sec }))
+    .sort((a, b) => Number(a.start_sec) - Number(b.start_sec));
+
+  let previousEnd = start ?? 0;
+  for (const segment of segments) {
+    if (typeof segment.start_sec !== "number" || typeof segment.end_sec !== "number") {
+      throw new Error("Invalid 'hero_segments' field, each segment needs start_sec and end_sec");
+    }
+    const length = segment.end_sec - segment.start_sec;
+    if (length < HERO_SEGMENT_LIMITS.MIN_SEC || length > HERO_SEGMENT_LIMITS.MAX_SEC) {
+      throw new Error(`Hero segments must be ${HERO_SEGMENT_LIMITS.MIN_SEC}-${HERO_SEGMENT_LIMITS.MAX_SEC} seconds`);
+    }
+    if (segment.start_sec < previousEnd || (end !== undefined && segment.end_sec > end)) {
+      throw new Error("Hero segments must sit inside the audio excerpt without overlapping");
+    }
+    previousEnd = segment.end_sec;
+  }
+  return segments as HeroSegment[];
 }
 
 // Simple request body validation
@@ -52,16 +177,184 @@ function validateRequestBody(body: unknown): DirectorPlan {
   if (!plan.song_asset_url || typeof plan.song_asset_url !== "string") {
     throw new Error("Missing or invalid 'song_asset_url' field");
   }
+  if (plan.platform !== undefined && !ASPECT_RATIOS.includes(plan.platform as string)) {
+    throw new Error(`Invalid 'platform' field, expected one of ${ASPECT_RATIOS.join(", ")}`);
+  }
+  if (plan.export_platforms !== undefined) {
+    const ratios = plan.export_platforms;
+    if (!Array.isArray(ratios) || ratios.some((ratio) => !ASPECT_RATIOS.includes(ratio))) {
+      throw new Error("Invalid 'export_platforms' field");
+    }
+  }
+  if (plan.selfie_focus !== undefined) {
+    const focus = plan.selfie_focus as Record<string, unknown> | null;
+    if (!focus || !isFraction(focus.x) || !isFraction(focus.y)) {
+      throw new Error("Invalid 'selfie_focus' field");
+    }
+  }
+  if (plan.audio_start_sec !== undefined || plan.audio_end_sec !== undefined) {
+    const start = plan.audio_start_sec;
+    const end = plan.audio_end_sec;
+    if (typeof start !== "number" || typeof end !== "number" || start < 0) {
+      throw new Error("Invalid 'audio_start_sec'/'audio_end_sec' fields");
+    }
+    const length = end - start;
+    if (length < AUDIO_EXCERPT.MIN_SEC || length > AUDIO_EXCERPT.MAX_SEC) {
+      throw new Error(`Audio excerpt must be ${AUDIO_EXCERPT.MIN_SEC}-${AUDIO_EXCERPT.MAX_SEC} seconds`);
+    }
+  }
+  if (plan.beat_grid !== undefined) {
+    const grid = plan.beat_grid as Record<string, unknown> | null;
+    if (
+      !grid || typeof grid !== "object" ||
+      typeof grid.bpm !== "number" || grid.bpm <= 0 ||
+      !isTimeList(grid.beats) || !isTimeList(grid.downbeats)
+    ) {
+      throw new Error("Invalid 'beat_grid' field");
+    }
+  }
+  if (plan.providers !== undefined) {
+    const providers = plan.providers as Record<string, unknown> | null;
+    if (
+      !providers || typeof providers !== "object" ||
+      Object.values(providers).some((id) => typeof id !== "string")
+    ) {
+      throw new Error("Invalid 'providers' field");
+    }
+  }
+  if (plan.assembly !== undefined && !ASSEMBLY_MODES.includes(plan.assembly as string)) {
+    throw new Error(`Invalid 'assembly' field, expected one of ${ASSEMBLY_MODES.join(", ")}`);
+  }
+  if (plan.style_chips !== undefined && !isStyleChipList(plan.style_chips)) {
+    throw new Error(`Invalid 'style_chips' field, expected any of ${STYLE_CHIPS.join(", ")}`);
+  }
+  const heroSegments = plan.hero_segments === undefined
+    ? undefined
+    : validateHeroSegments(
+      plan.hero_segments,
+      plan.audio_start_sec as number | undefined,
+      plan.audio_end_sec as number | undefined
+    );
   
+  const platform = (plan.platform as string) || "9:16";
   return {
     emotion: plan.emotion as string,
-    platform: (plan.platform as string) || "9:16",
+    platform,
+    // The primary ratio is always rendered; duplicates are dropped
+    export_platforms: [...new Set((plan.export_platforms as string[] | undefined) ?? [])]
+      .filter((ratio) => ratio !== platform),
     selfie_asset_url: plan.selfie_asset_url as string,
+    selfie_focus: plan.selfie_focus as { x: number; y: number } | undefined,
     song_asset_url: plan.song_asset_url as string,
+    audio_start_sec: plan.audio_start_sec as number | undefined,
+    audio_end_sec: plan.audio_end_sec as number | undefined,
+    beat_grid: plan.beat_grid as BeatGrid | undefined,
     lyrics: plan.lyrics as string | undefined,
-    hero_segments: plan.hero_segments as number[] | undefined,
+    hero_segments: heroSegments,
     style_chips: plan.style_chips as string[] | undefined,
     output: plan.output as { duration_sec?: number } | undefined,
+    providers: plan.providers as { video?: string; lipsync?: string } | undefined,
+    assembly: plan.assembly as AssemblyMode | undefined,
+  };
+}
+
+interface VersionRequest {
+  parent_job_id: string;
+  emotion?: string;
+  style_chips: string[];
+  providers?: DirectorPlan["providers"];
+  assembly?: AssemblyMode;
+}
+
+// A new version only names its parent and what to change: the emotion, extra style chips, or nothing (a re-roll)
+function validateVersionBody(body: Record<string, unknown>): VersionRequest {
+  if (typeof body.parent_job_id !== "string" || !body.parent_job_id) {
+    throw new Error("Invalid 'parent_job_id' field");
+  }
+  if (body.emotion !== undefined && (typeof body.emotion !== "string" || !body.emotion)) {
+    throw new Error("Invalid 'emotion' field");
+  }
+  if (body.style_chips !== undefined && !isStyleChipList(body.style_chips)) {
+    throw new Error(`Invalid 'style_chips' field, expected any of ${STYLE_CHIPS.join(", ")}`);
+  }
+  if (body.assembly !== undefined && !ASSEMBLY_MODES.includes(body.assembly as string)) {
+    throw new Error(`Invalid 'assembly' field, expected one of ${ASSEMBLY_MODES.join(", ")}`);
+  }
+  return {
+    parent_job_id: body.parent_job_id,
+    emotion: body.emotion as string | undefined,
+    style_chips: (body.style_chips as string[] | undefined) ?? [],
+    providers: body.providers as DirectorPlan["providers"],
+    assembly: body.assembly as AssemblyMode | undefined,
+  };
+}
+
+interface ParentJob {
+  id: string;
+  root_job_id: string | null;
+  emotion: string;
+  lyrics: string | null;
+  song_url: string;
+  selfie_url: string;
+  selfie_focus: { x: number; y: number } | null;
+  platform: string;
+  export_platforms: string[] | null;
+  audio_start_sec: number | null;
+  audio_end_sec: number | null;
+  beat_grid: BeatGrid | null;
+  hero_segments: HeroSegment[] | null;
+  providers: DirectorPlan["providers"] | null;
+  style_chips: string[] | null;
+}
+
+// Fresh link to the same object, only for a signed link into the user's own upload folder.
+// The parent's URLs came from the client, so anything else is never signed with the service role.
+async function resignUpload(client: SupabaseClient, url: string, userId: string): Promise<string | null> {
+  let pathname: string;
+  try {
+    pathname = new URL(url).pathname;
+  } catch {
+    return null;
+  }
+  const start = pathname.indexOf(SIGNED_PATH);
+  if (start === -1) return null;
+  const [bucket, ...path] = pathname.slice(start + SIGNED_PATH.length).split("/").map(decodeURIComponent);
+  if (bucket !== UPLOADS_BUCKET || path.length < 2 || path[0] !== userId || path.some((part) => !part || part === "." || part === "..")) {
+    return null;
+  }
+  const { data } = await client.storage.from(bucket).createSignedUrl(path.join("/"), UPLOAD_URL_TTL);
+  return data?.signedUrl ?? null;
+}
+
+// Same uploads, excerpt, hero segments and framing as the parent; styles build on the parent's.
+// Null when the parent's uploads can't be re-signed for this user.
+async function planFromParent(
+  client: SupabaseClient,
+  parent: ParentJob,
+  request: VersionRequest,
+  userId: string
+): Promise<DirectorPlan | null> {
+  const selfieUrl = await resignUpload(client, parent.selfie_url, userId);
+  const songUrl = await resignUpload(client, parent.song_url, userId);
+  if (!selfieUrl || !songUrl) return null;
+
+  return {
+    emotion: request.emotion ?? parent.emotion,
+    platform: parent.platform,
+    export_platforms: parent.export_platforms ?? [],
+    selfie_asset_url: selfieUrl,
+    selfie_focus: parent.selfie_focus ?? undefined,
+    song_asset_url: songUrl,
+    audio_start_sec: parent.audio_start_sec ?? undefined,
+    audio_end_sec: parent.audio_end_sec ?? undefined,
+    beat_grid: parent.beat_grid ?? undefined,
+    hero_segments: parent.hero_segments ?? undefined,
+    lyrics: parent.lyrics ?? undefined,
+    style_chips: [...new Set([...(parent.style_chips ?? []), ...request.style_chips])],
+    parent_job_id: parent.id,
+    root_job_id: parent.root_job_id ?? parent.id,
+    providers: request.providers ?? parent.providers ?? undefined,
+    assembly: request.assembly,
   };
 }
 
@@ -101,10 +394,15 @@ serve(async (req) => {
     }
 
     // Parse and validate request body
-    let plan: DirectorPlan;
+    let versionRequest: VersionRequest | null = null;
+    let plan: DirectorPlan | null = null;
     try {
       const rawBody = await req.json();
-      plan = validateRequestBody(rawBody);
+      if (rawBody && typeof rawBody === "object" && rawBody.parent_job_id !== undefined) {
+        versionRequest = validateVersionBody(rawBody);
+      } else {
+        plan = validateRequestBody(rawBody);
+      }
     } catch (parseError) {
       console.error(`[${new Date().toISOString()}] CREATE-JOB: Invalid request body - ${parseError}`);
       return new Response(
@@ -124,30 +422,141 @@ serve(async (req) => {
       );
     }
     
-    console.log(`[${new Date().toISOString()}] CREATE-JOB: Creating job for emotion "${plan.emotion}" user ${userId}`);
+    // New versions reuse the parent's uploads, so the parent must be the user's own
+    let version = 1;
+    if (versionRequest) {
+      const { data: parent } = await supabaseAdmin
+        .from("jobs")
+        .select("id, root_job_id, emotion, lyrics, song_url, selfie_url, selfie_focus, platform, export_platforms, audio_start_sec, audio_end_sec, beat_grid, hero_segments, providers, style_chips")
+        .eq("id", versionRequest.parent_job_id)
+        .eq("user_id", userId)
+        .maybeSingle();
+      if (!parent) {
+        console.error(`[${new Date().toISOString()}] CREATE-JOB: Parent job ${versionRequest.parent_job_id} not found for user ${userId}`);
+        return new Response(
+          JSON.stringify({ error: "Parent job not found" }),
+          { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+      plan = await planFromParent(supabaseAdmin, parent as ParentJob, versionRequest, userId);
+      if (!plan) {
+        console.error(`[${new Date().toISOString()}] CREATE-JOB: Parent job ${parent.id} has uploads outside user ${userId}'s folder`);
+        return new Response(
+          JSON.stringify({ error: "This video's uploads can't be reused, please start a new one" }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      // Versions count up across the whole lineage, not per parent
+      const { data: latest } = await supabaseAdmin
+        .from("jobs")
+        .select("version")
+        .or(`id.eq.${plan.root_job_id},root_job_id.eq.${plan.root_job_id}`)
+        .order("version", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+      version = (latest?.version ?? 1) + 1;
+      console.log(`[${new Date().toISOString()}] CREATE-JOB: Version ${version} of job ${plan.root_job_id} from ${parent.id} (${plan.emotion}, style: ${plan.style_chips!.join(", ") || "none"})`);
+    }
+    if (!plan) {
+      throw new Error("No plan to create a job from");
+    }
+
+    // Picking providers per job is for local development with the stub clips; everywhere
+    // else a job renders, and is priced, with the deployment's own providers
+    if (plan.providers && Deno.env.get("ALLOW_CLIENT_PROVIDERS") !== "true") {
+      console.log(`[${new Date().toISOString()}] CREATE-JOB: Ignoring requested providers ${JSON.stringify(plan.providers)} for user ${userId}`);
+      plan = { ...plan, providers: undefined };
+    }
+
+    const userPlan = await loadUserPlan(supabaseAdmin, userId);
+
+    // Plan limits first: a video too long for the plan, or too many jobs too quickly.
+    // The job's ID is picked here so it can take its rate-limit slot before it exists
+    const jobId = crypto.randomUUID();
+    const violation = checkDuration(userPlan, requestedDuration(plan) ?? 0)
+      ?? await recordJobCreation(supabaseAdmin, userId, jobId, userPlan);
+    if (violation) {
+      console.log(`[${new Date().toISOString()}] CREATE-JOB: ${violation.code} (${violation.limit}) for user ${userId} on ${userPlan}`);
+      return limitResponse(violation, corsHeaders);
+    }
+
+    // Requested assembly mode, within what the user's plan allows
+    const planAssembly = PLAN_ASSEMBLY[userPlan] ?? PLAN_ASSEMBLY.free;
+    const assemblyMode: AssemblyMode = plan.assembly === "server" && !planAssembly.server
+      ? "client"
+      : plan.assembly ?? planAssembly.default;
+
+    // Paid plans are granted credits per invoice by stripe-webhook; free plans once a month, on first use
+    if (userPlan === "free") {
+      const granted = await grantCredits(supabaseAdmin, userId, PLAN_ENTITLEMENTS.free.monthly_credits, freeGrantSource(userId));
+      if (granted !== null) {
+        console.log(`[${new Date().toISOString()}] CREATE-JOB: Granted ${granted} free credits to user ${userId}`);
+      }
+    }
+    const estimate = creditEstimate(plan, userPlan);
+
+    console.log(`[${new Date().toISOString()}] CREATE-JOB: Creating job for emotion "${plan.emotion}" user ${userId} (${assemblyMode} assembly, up to ${estimate} credits)`);
 
     // Create job record using admin client (bypasses RLS)
     const { data: job, error: jobError } = await supabaseAdmin
       .from("jobs")
       .insert({
+        id: jobId,
         user_id: userId,
         status: "queued",
         emotion: plan.emotion,
         lyrics: plan.lyrics || null,
         song_url: plan.song_asset_url,
         selfie_url: plan.selfie_asset_url,
+        selfie_focus: plan.selfie_focus ?? null,
+        platform: plan.platform,
+        export_platforms: plan.export_platforms ?? [],
+        audio_start_sec: plan.audio_start_sec ?? null,
+        audio_end_sec: plan.audio_end_sec ?? null,
+        beat_grid: plan.beat_grid ?? null,
+        hero_segments: plan.hero_segments?.length ? plan.hero_segments : null,
+        providers: plan.providers ?? null,
+        assembly_mode: assemblyMode,
+        style_chips: plan.style_chips ?? [],
+        parent_job_id: plan.parent_job_id ?? null,
+        root_job_id: plan.root_job_id ?? null,
+        version,
+        credit_estimate: estimate,
       })
       .select()
       .single();
 
     if (jobError) {
       console.error(`[${new Date().toISOString()}] CREATE-JOB: Database error - ${jobError.message}`);
+      await releaseJobCreation(supabaseAdmin, userId, jobId);
       return new Response(
         JSON.stringify({ error: "Failed to create job. Please try again." }),
         { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
 
+    // Hold the estimate now so the job can't start on credits the user no longer has
+    if (!(await reserveJobCredits(supabaseAdmin, userId, job.id, estimate))) {
+      await supabaseAdmin.from("jobs").delete().eq("id", job.id);
+      await releaseJobCreation(supabaseAdmin, userId, job.id);
+      const { data: credits } = await supabaseAdmin
+        .from("credit_balances")
+        .select("balance")
+        .eq("user_id", userId)
+        .maybeSingle();
+      console.log(`[${new Date().toISOString()}] CREATE-JOB: Not enough credits for user ${userId} (needs ${estimate}, has ${credits?.balance ?? 0})`);
+      return new Response(
+        JSON.stringify({
+          error: "Not enough credits for this video",
+          code: "insufficient_credits",
+          required: estimate,
+          balance: credits?.balance ?? 0,
+        }),
+        { status: 402, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
     const duration = Date.now() - startTime;
     console.log(`[${new Date().toISOString()}] CREATE-JOB: Success - job ${job.id} created in ${duration}ms`);
 
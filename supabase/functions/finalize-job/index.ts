@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { releaseJobCredits } from "../_shared/credits.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -19,9 +20,33 @@ function log(level: 'info' | 'warn' | 'error', message: string, context?: Record
   }
 }
 
+// Extra export ratios a job can finalize (mirrors Platform in src/lib/constants.ts)
+const ASPECT_RATIOS = ["9:16", "16:9", "1:1", "4:5"];
+
+// Basic check that a URL points at our storage
+const isOutputUrl = (url: unknown): url is string =>
+  typeof url === "string" && (url.includes("outputs") || url.includes("supabase"));
+
+// Only an assembled job can be finalized, by the worker or the user's browser
+const FINALIZABLE_STATES = ['ready_for_assembly', 'assembling'];
+
+/**
+ * Who is calling: the assembly worker carries the service role key, the
+ * browser assembler the job owner's session. Null without either.
+ */
+async function resolveCaller(req: Request): Promise<{ service: boolean; userId: string | null } | null> {
+  const token = req.headers.get("Authorization")?.replace("Bearer ", "") ?? "";
+  if (!token) return null;
+  if (token === Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")) return { service: true, userId: null };
+
+  const anonClient = createClient(Deno.env.get("SUPABASE_URL") ?? "", Deno.env.get("SUPABASE_ANON_KEY") ?? "");
+  const { data: { user } } = await anonClient.auth.getUser(token);
+  return user ? { service: false, userId: user.id } : null;
+}
+
 // Validate required environment variables
 function validateEnv() {
-  const required = ['SUPABASE_URL', 'SUPABASE_SERVICE_ROLE_KEY'];
+  const required = ['SUPABASE_URL', 'SUPABASE_ANON_KEY', 'SUPABASE_SERVICE_ROLE_KEY'];
   const missing = required.filter(key => !Deno.env.get(key));
   if (missing.length > 0) {
     throw new Error(`Missing required environment variables: ${missing.join(', ')}`);
@@ -51,22 +76,17 @@ serve(async (req) => {
       Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
     );
 
-    // Try to get user from auth header (optional for testing)
-    let userId: string | null = null;
-    const authHeader = req.headers.get("Authorization");
-    if (authHeader) {
-      const anonClient = createClient(
-        Deno.env.get("SUPABASE_URL") ?? "",
-        Deno.env.get("SUPABASE_ANON_KEY") ?? ""
-      );
-      const { data: { user } } = await anonClient.auth.getUser(
-        authHeader.replace("Bearer ", "")
+    const caller = await resolveCaller(req);
+    if (!caller) {
+      return new Response(
+        JSON.stringify({ error: "Authentication required" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
-      userId = user?.id ?? null;
     }
+    const userId = caller.userId;
 
     const body = await req.json();
-    const { job_id, final_video_url } = body;
+    const { job_id, final_video_url, outputs } = body;
     
     // Validate required fields
     if (!job_id) {
@@ -85,14 +105,14 @@ serve(async (req) => {
     
     log('info', 'Finalizing job', { jobId: job_id, userId });
 
-    // Get job by ID (service role bypasses RLS, no user_id filter needed)
+    // Get job by ID; users can only finalize their own
     const { data: job, error: jobError } = await supabaseClient
       .from("jobs")
       .select("*")
       .eq("id", job_id)
-      .single();
+      .maybeSingle();
 
-    if (jobError || !job) {
+    if (jobError || !job || (!caller.service && job.user_id !== userId)) {
       log('error', 'Job not found', { jobId: job_id, error: jobError?.message });
       return new Response(
         JSON.stringify({ error: "Job not found" }),
@@ -101,8 +121,7 @@ serve(async (req) => {
     }
 
     // Verify job is in correct state
-    const validStates = ['ready_for_assembly', 'assembling', 'running'];
-    if (!validStates.includes(job.status || '')) {
+    if (!FINALIZABLE_STATES.includes(job.status || '')) {
       log('warn', 'Job in invalid state for finalization', { jobId: job_id, status: job.status });
       return new Response(
         JSON.stringify({ error: `Cannot finalize job in '${job.status}' state` }),
@@ -111,38 +130,74 @@ serve(async (req) => {
     }
 
     // Verify the URL is from outputs bucket (basic security check)
-    if (!final_video_url.includes("outputs") && !final_video_url.includes("supabase")) {
-      log('error', 'Invalid video URL', { jobId: job_id, url: final_video_url.substring(0, 50) });
+    if (!isOutputUrl(final_video_url)) {
+      log('error', 'Invalid video URL', { jobId: job_id, url: String(final_video_url).substring(0, 50) });
       return new Response(
         JSON.stringify({ error: "Invalid video URL" }),
         { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
 
-    // Update job with final video URL
-    const { error: updateError } = await supabaseClient
+    // Extra aspect-ratio exports, keyed by ratio
+    const exportEntries = outputs && typeof outputs === "object" ? Object.entries(outputs) : [];
+    if (
+      (outputs !== undefined && (typeof outputs !== "object" || Array.isArray(outputs))) ||
+      exportEntries.some(([ratio, url]) => !ASPECT_RATIOS.includes(ratio) || !isOutputUrl(url))
+    ) {
+      log('error', 'Invalid export URLs', { jobId: job_id });
+      return new Response(
+        JSON.stringify({ error: "Invalid export URLs" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Update job with final video URL, unless it moved on since it was read
+    const { data: finalized, error: updateError } = await supabaseClient
       .from("jobs")
       .update({ 
         status: "done",
         result_url: final_video_url,
+        outputs: exportEntries.length > 0 ? Object.fromEntries(exportEntries) : null,
       })
-      .eq("id", job_id);
+      .eq("id", job_id)
+      .in("status", FINALIZABLE_STATES)
+      .select("id");
 
     if (updateError) {
       log('error', 'Failed to update job', { jobId: job_id, error: updateError.message });
       throw updateError;
     }
+    if (!finalized || finalized.length === 0) {
+      log('warn', 'Job left the assembly states before finalization', { jobId: job_id });
+      return new Response(
+        JSON.stringify({ error: "Job is no longer being assembled" }),
+        { status: 409, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // process-job settles the hold when rendering ends; settle again in case that failed
+    if (job.credit_cost !== null) {
+      try {
+        const returned = await releaseJobCredits(supabaseClient, job_id, job.credit_cost);
+        if (returned > 0) log('info', 'Settled job credits', { jobId: job_id, cost: job.credit_cost, returned });
+      } catch (error) {
+        log('error', 'Failed to settle job credits', { jobId: job_id, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
 
     // Insert asset record for final video
-    const jobUserId = userId || job.user_id;
+    const jobUserId = job.user_id;
     const { error: assetError } = await supabaseClient
       .from("assets")
-      .insert({
-        user_id: jobUserId,
-        type: "final_video",
-        url: final_video_url,
-        meta: { job_id },
-      });
+      .insert([
+        { user_id: jobUserId, type: "final_video", url: final_video_url, meta: { job_id, aspect_ratio: job.platform } },
+        ...exportEntries.map(([ratio, url]) => ({
+          user_id: jobUserId,
+          type: "final_video",
+          url,
+          meta: { job_id, aspect_ratio: ratio },
+        })),
+      ]);
 
     if (assetError) {
       log('warn', 'Failed to insert asset record', { jobId: job_id, error: assetError.message });
@@ -0,0 +1,69 @@
+// Mirrors BeatGrid in src/types/veosync.ts. Times are seconds from the start of the song.
+export interface BeatGrid {
+  bpm: number;
+  beats: number[];
+  downbeats: number[];
+  confidence: number;
+}
+
+export interface ClipTiming {
+  start_time: number;
+  duration_sec: number;
+}
+
+// Grids below this autocorrelation strength are too unreliable to cut on
+const MIN_CONFIDENCE = 0.1;
+const BEATS_PER_BAR = 4;
+
+const round = (seconds: number) => Math.round(seconds * 1000) / 1000;
+
+export function parseBeatGrid(input: unknown): BeatGrid | null {
+  const grid = (input ?? null) as Partial<BeatGrid> | null;
+  if (
+    !grid || typeof grid.bpm !== "number" ||
+    !Array.isArray(grid.beats) || !Array.isArray(grid.downbeats)
+  ) {
+    return null;
+  }
+  return grid.confidence !== undefined && grid.confidence < MIN_CONFIDENCE ? null : grid as BeatGrid;
+}
+
+export const barLengthSec = (grid: BeatGrid) => (60 / grid.bpm) * BEATS_PER_BAR;
+
+/**
+ * Lay scenes out on the video timeline with every cut moved to the nearest
+ * bar line (or beat, when bars are longer than a scene may be) that keeps
+ * the scene within its duration bounds. offsetSec is the song time at which
+ * the video starts. Without a usable grid the requested durations are kept.
+ */
+export function snapToBars(
+  durations: number[],
+  grid: BeatGrid | null,
+  offsetSec: number,
+  limits: { min: number; max: number }
+): ClipTiming[] {
+  const lines = grid
+    ? (barLengthSec(grid) <= limits.max ? grid.downbeats : grid.beats)
+      .map((t) => t - offsetSec)
+      .filter((t) => t > 0)
+    : [];
+
+  let cursor = 0;
+  return durations.map((duration) => {
+    const target = cursor + duration;
+    let cut = target;
+    let bestDistance = Infinity;
+    for (const line of lines) {
+      if (line < cursor + limits.min || line > cursor + limits.max) continue;
+      const distance = Math.abs(line - target);
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        cut = line;
+      }
+    }
+
+    const timing = { start_time: round(cursor), duration_sec: round(cut - cursor) };
+    cursor = cut;
+    return timing;
+  });
+}
@@ -0,0 +1,258 @@
+import { log, withRetry } from "./utils.ts";
+
+// Mirrors CaptionTrack in src/types/veosync.ts. Times are seconds from the start of the song.
+export interface CaptionWord {
+  text: string;
+  start: number;
+  end: number;
+}
+
+export interface CaptionCue {
+  start: number;
+  end: number;
+  text: string;
+  words: CaptionWord[];
+}
+
+export type CaptionSource = "aligned" | "estimated" | "manual";
+
+export interface CaptionTrack {
+  source: CaptionSource;
+  cues: CaptionCue[];
+}
+
+const CAPTION_LIMITS = {
+  MAX_CUES: 200,
+  MAX_CUE_LENGTH: 200,
+  // Below this share of matched words the transcript is too far off to trust
+  MIN_MATCH_RATIO: 0.4,
+};
+
+export class CaptionValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CaptionValidationError';
+  }
+}
+
+const round = (seconds: number) => Math.round(seconds * 100) / 100;
+
+const normalizeToken = (token: string) => token.toLowerCase().replace(/[^\p{L}\p{N}]/gu, "");
+
+function lyricLines(lyrics: string): string[] {
+  return lyrics
+    .split(/\r?\n/)
+    .map((line) => line.trim().replace(/\s+/g, " "))
+    .filter((line) => line.length > 0)
+    .slice(0, CAPTION_LIMITS.MAX_CUES);
+}
+
+// Spread a line's words across its cue, weighted by word length
+export function distributeWords(text: string, start: number, end: number): CaptionWord[] {
+  const tokens = text.split(" ").filter(Boolean);
+  const totalWeight = tokens.reduce((sum, token) => sum + token.length + 1, 0);
+  let cursor = start;
+
+  return tokens.map((token) => {
+    const span = ((end - start) * (token.length + 1)) / totalWeight;
+    const word = { text: token, start: round(cursor), end: round(cursor + span) };
+    cursor += span;
+    return word;
+  });
+}
+
+// Evenly spaced cues over [startSec, endSec], used when the song can't be transcribed
+export function estimateCaptions(lyrics: string, startSec: number, endSec: number): CaptionTrack | null {
+  const lines = lyricLines(lyrics);
+  if (lines.length === 0 || endSec <= startSec) return null;
+
+  const span = (endSec - startSec) / lines.length;
+  return {
+    source: "estimated",
+    cues: lines.map((text, index) => {
+      const start = round(startSec + index * span);
+      const end = round(startSec + (index + 1) * span);
+      return { start, end, text, words: distributeWords(text, start, end) };
+    }),
+  };
+}
+
+interface TranscriptWord {
+  word: string;
+  start: number;
+  end: number;
+}
+
+// Word-level transcript of the song via Whisper
+async function transcribeWords(songUrl: string, apiKey: string): Promise<TranscriptWord[]> {
+  return await withRetry(async () => {
+    const audioResponse = await fetch(songUrl);
+    if (!audioResponse.ok) {
+      throw new Error(`Failed to fetch song: ${audioResponse.status}`);
+    }
+    const audio = await audioResponse.blob();
+
+    const form = new FormData();
+    form.append("file", audio, "song.mp3");
+    form.append("model", "whisper-1");
+    form.append("response_format", "verbose_json");
+    form.append("timestamp_granularities[]", "word");
+
+    const response = await fetch("https://api.openai.com/v1/audio/transcriptions", {
+      method: "POST",
+      headers: { "Authorization": `Bearer ${apiKey}` },
+      body: form,
+    });
+
+    if (!response.ok) {
+      const err = await response.text();
+      throw new Error(`OpenAI transcription error: ${response.status} - ${err}`);
+    }
+
+    const data = await response.json();
+    return (data.words ?? []) as TranscriptWord[];
+  }, { maxRetries: 2, context: 'Lyric transcription' });
+}
+
+/**
+ * Match lyric words to transcript words (longest common subsequence on
+ * normalized tokens) and interpolate timings for words Whisper missed.
+ * Returns null when too few words match to trust the result.
+ */
+export function alignLyrics(lyrics: string, transcript: TranscriptWord[]): CaptionTrack | null {
+  const lines = lyricLines(lyrics);
+  const lyricWords = lines.flatMap((line, lineIndex) =>
+    line.split(" ").map((text) => ({ text, lineIndex, key: normalizeToken(text) }))
+  );
+  const heard = transcript.map((w) => normalizeToken(w.word));
+  if (lyricWords.length === 0 || heard.length === 0) return null;
+
+  const n = lyricWords.length;
+  const m = heard.length;
+  const lcs: number[][] = Array.from({ length: n + 1 }, () => new Array(m + 1).fill(0));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i][j] = lyricWords[i].key && lyricWords[i].key === heard[j]
+        ? lcs[i + 1][j + 1] + 1
+        : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const matched: (TranscriptWord | null)[] = new Array(n).fill(null);
+  for (let i = 0, j = 0; i < n && j < m;) {
+    if (lyricWords[i].key && lyricWords[i].key === heard[j]) {
+      matched[i] = transcript[j];
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+
+  const matchCount = matched.filter(Boolean).length;
+  if (matchCount / n < CAPTION_LIMITS.MIN_MATCH_RATIO) {
+    log('info', 'Lyric alignment too weak, falling back', { matched: matchCount, words: n });
+    return null;
+  }
+
+  // Fill gaps by spreading unmatched words between their matched neighbours
+  const timed: CaptionWord[] = [];
+  let i = 0;
+  while (i < n) {
+    if (matched[i]) {
+      timed.push({ text: lyricWords[i].text, start: round(matched[i]!.start), end: round(matched[i]!.end) });
+      i++;
+      continue;
+    }
+    let gapEnd = i;
+    while (gapEnd < n && !matched[gapEnd]) gapEnd++;
+    const from = timed.length > 0 ? timed[timed.length - 1].end : Math.max(0, (matched[gapEnd]?.start ?? 0) - 0.5 * (gapEnd - i));
+    const to = gapEnd < n ? matched[gapEnd]!.start : from + 0.5 * (gapEnd - i);
+    const step = (to - from) / (gapEnd - i);
+    for (let k = i; k < gapEnd; k++) {
+      const start = from + step * (k - i);
+      timed.push({ text: lyricWords[k].text, start: round(start), end: round(start + step) });
+    }
+    i = gapEnd;
+  }
+
+  const cues: CaptionCue[] = lines.map((text, lineIndex) => {
+    const words = timed.filter((_, index) => lyricWords[index].lineIndex === lineIndex);
+    return { start: words[0].start, end: words[words.length - 1].end, text, words };
+  });
+
+  return { source: "aligned", cues };
+}
+
+/**
+ * Time the lyrics against the song. Falls back to evenly spaced cues over
+ * the rendered part of the song when transcription is unavailable or doesn't match.
+ */
+export async function buildCaptions(
+  lyrics: string | null,
+  songUrl: string,
+  fallbackSpan: { start_sec: number; end_sec: number }
+): Promise<CaptionTrack | null> {
+  if (!lyrics?.trim()) return null;
+
+  const openaiKey = Deno.env.get("OPEN_AI_KEY");
+  if (openaiKey) {
+    try {
+      const aligned = alignLyrics(lyrics, await transcribeWords(songUrl, openaiKey));
+      if (aligned) {
+        log('info', 'Lyrics aligned to audio', { cueCount: aligned.cues.length });
+        return aligned;
+      }
+    } catch (error) {
+      log('error', 'Lyric alignment failed, using estimated timing', { error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  return estimateCaptions(lyrics, fallbackSpan.start_sec, fallbackSpan.end_sec);
+}
+
+// Validate captions edited in the timing editor
+export function normalizeCaptions(input: unknown): CaptionTrack | null {
+  if (input === null) return null;
+
+  const track = (input ?? {}) as Record<string, unknown>;
+  if (!Array.isArray(track.cues)) {
+    throw new CaptionValidationError('Captions must include a cues array');
+  }
+  if (track.cues.length > CAPTION_LIMITS.MAX_CUES) {
+    throw new CaptionValidationError(`Captions can have at most ${CAPTION_LIMITS.MAX_CUES} cues`);
+  }
+  const source = track.source === "aligned" || track.source === "estimated" ? track.source : "manual";
+
+  const cues = track.cues.map((raw, index) => {
+    const cue = (raw ?? {}) as Record<string, unknown>;
+    const text = typeof cue.text === "string" ? cue.text.trim().replace(/\s+/g, " ") : "";
+    const start = Number(cue.start);
+    const end = Number(cue.end);
+    if (!text) {
+      throw new CaptionValidationError(`Cue ${index + 1}: text is required`);
+    }
+    if (!Number.isFinite(start) || !Number.isFinite(end) || start < 0 || end <= start) {
+      throw new CaptionValidationError(`Cue ${index + 1}: end must be after start`);
+    }
+
+    const clippedText = text.substring(0, CAPTION_LIMITS.MAX_CUE_LENGTH);
+    const words = Array.isArray(cue.words) ? (cue.words as CaptionWord[]) : [];
+    const wordsValid = words.length > 0
+      && words.map((w) => w.text).join(" ") === clippedText
+      && words.every((w) => Number.isFinite(w.start) && Number.isFinite(w.end) && w.start >= start - 0.01 && w.end <= end + 0.01);
+
+    return {
+      start: round(start),
+      end: round(end),
+      text: clippedText,
+      words: wordsValid
+        ? words.map((w) => ({ text: w.text, start: round(w.start), end: round(w.end) }))
+        : distributeWords(clippedText, start, end),
+    };
+  });
+
+  return { source, cues: cues.sort((a, b) => a.start - b.start) };
+}
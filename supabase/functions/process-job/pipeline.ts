@@ -0,0 +1,220 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+
+export type StepStatus = "pending" | "running" | "done" | "error";
+
+export interface JobStep {
+  id: string;
+  job_id: string;
+  step_key: string;
+  position: number;
+  status: StepStatus;
+  attempts: number;
+  input: Record<string, unknown>;
+  output: Record<string, unknown>;
+  error: string | null;
+  started_at: string | null;
+  completed_at: string | null;
+}
+
+export interface StepDefinition {
+  step_key: string;
+  position: number;
+  input: Record<string, unknown>;
+}
+
+export const STEP_KEYS = {
+  STORYBOARD: "storyboard",
+  CAPTIONS: "captions",
+  LIPSYNC: "lipsync",
+  MANIFEST: "manifest",
+} as const;
+
+export const brollStepKey = (sceneIndex: number) => `broll_${sceneIndex}`;
+
+// One lip-sync per hero segment, when the user marked any
+export const lipsyncStepKey = (segmentIndex: number) => `${STEP_KEYS.LIPSYNC}_${segmentIndex}`;
+
+export const isLipSyncStepKey = (stepKey: string) =>
+  stepKey === STEP_KEYS.LIPSYNC || stepKey.startsWith(`${STEP_KEYS.LIPSYNC}_`);
+
+// Steps that talk to a video/lip-sync provider (as opposed to planning steps)
+export function isRenderStepKey(stepKey: string): boolean {
+  return stepKey !== STEP_KEYS.STORYBOARD && stepKey !== STEP_KEYS.CAPTIONS && stepKey !== STEP_KEYS.MANIFEST;
+}
+
+export type StepPatch = Partial<Pick<JobStep, "status" | "attempts" | "input" | "output" | "error" | "started_at" | "completed_at">>;
+
+// Deterministic comparison for step inputs (jsonb does not preserve key order)
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([key, val]) => `${JSON.stringify(key)}:${stableStringify(val)}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+export async function loadSteps(client: SupabaseClient, jobId: string): Promise<JobStep[]> {
+  const { data, error } = await client
+    .from("job_steps")
+    .select("*")
+    .eq("job_id", jobId)
+    .order("position", { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load job steps: ${error.message}`);
+  }
+  return (data ?? []) as JobStep[];
+}
+
+export async function updateStep(client: SupabaseClient, step: JobStep, patch: StepPatch): Promise<JobStep> {
+  const { data, error } = await client
+    .from("job_steps")
+    .update(patch)
+    .eq("id", step.id)
+    .select()
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to update step ${step.step_key}: ${error?.message}`);
+  }
+  return data as JobStep;
+}
+
+/**
+ * Reconcile persisted steps with the wanted definitions.
+ * Steps whose input changed are reset so they run again, steps that are no
+ * longer wanted are dropped and completed steps with identical input are kept.
+ */
+export async function syncSteps(
+  client: SupabaseClient,
+  jobId: string,
+  definitions: StepDefinition[]
+): Promise<JobStep[]> {
+  const existing = await loadSteps(client, jobId);
+  const wanted = new Map(definitions.map((def) => [def.step_key, def]));
+
+  const stale = existing.filter((step) => !wanted.has(step.step_key)).map((step) => step.id);
+  if (stale.length > 0) {
+    const { error } = await client.from("job_steps").delete().in("id", stale);
+    if (error) {
+      throw new Error(`Failed to remove stale steps: ${error.message}`);
+    }
+  }
+
+  for (const step of existing) {
+    const def = wanted.get(step.step_key);
+    if (!def) continue;
+
+    if (stableStringify(step.input) !== stableStringify(def.input)) {
+      await updateStep(client, step, {
+        status: "pending",
+        attempts: 0,
+        input: def.input,
+        output: {},
+        error: null,
+        started_at: null,
+        completed_at: null,
+      });
+    } else if (step.position !== def.position) {
+      const { error } = await client.from("job_steps").update({ position: def.position }).eq("id", step.id);
+      if (error) {
+        throw new Error(`Failed to reorder step ${step.step_key}: ${error.message}`);
+      }
+    }
+  }
+
+  const existingKeys = new Set(existing.map((step) => step.step_key));
+  const missing = definitions.filter((def) => !existingKeys.has(def.step_key));
+  if (missing.length > 0) {
+    const { error } = await client
+      .from("job_steps")
+      .upsert(
+        missing.map((def) => ({ job_id: jobId, ...def })),
+        { onConflict: "job_id,step_key", ignoreDuplicates: true }
+      );
+    if (error) {
+      throw new Error(`Failed to create job steps: ${error.message}`);
+    }
+  }
+
+  return loadSteps(client, jobId);
+}
+
+// Signed storage links are re-issued per job, so compare inputs without their tokens
+const withoutTokens = (input: Record<string, unknown>): string =>
+  stableStringify(input).replace(/\?token=[\w.-]+/g, "");
+
+/**
+ * Mark steps done with the output of the same step on the job this one was
+ * made from, when both ran on identical input, so unchanged clips aren't
+ * rendered (and paid for) twice. Only untouched pending steps are adopted.
+ */
+export async function adoptParentSteps(
+  client: SupabaseClient,
+  parentJobId: string,
+  steps: JobStep[],
+  stepKeys: string[]
+): Promise<JobStep[]> {
+  const candidates = steps.filter(
+    (step) => stepKeys.includes(step.step_key) && step.status === "pending" && step.attempts === 0
+  );
+  if (candidates.length === 0) return steps;
+
+  const parentSteps = await loadSteps(client, parentJobId);
+  let result = steps;
+  for (const step of candidates) {
+    const source = parentSteps.find(
+      (parent) => parent.step_key === step.step_key && parent.status === "done" && parent.output.url
+    );
+    if (!source || withoutTokens(source.input) !== withoutTokens(step.input)) continue;
+
+    const adopted = await updateStep(client, step, {
+      status: "done",
+      output: { ...source.output, adopted_from: parentJobId },
+      completed_at: new Date().toISOString(),
+    });
+    result = result.map((s) => (s.id === adopted.id ? adopted : s));
+  }
+  return result;
+}
+
+// Give failed steps a fresh set of attempts (explicit user retry)
+export async function resetFailedSteps(client: SupabaseClient, jobId: string): Promise<void> {
+  const { error } = await client
+    .from("job_steps")
+    .update({ status: "pending", attempts: 0, error: null })
+    .eq("job_id", jobId)
+    .eq("status", "error");
+
+  if (error) {
+    throw new Error(`Failed to reset failed steps: ${error.message}`);
+  }
+}
+
+/**
+ * Take an exclusive lease on a job so overlapping invocations don't run the
+ * same steps twice. Returns false if another invocation holds the lease.
+ */
+export async function claimJob(client: SupabaseClient, jobId: string, leaseMs: number): Promise<boolean> {
+  const now = new Date();
+  const { data, error } = await client
+    .from("jobs")
+    .update({ locked_until: new Date(now.getTime() + leaseMs).toISOString() })
+    .eq("id", jobId)
+    .or(`locked_until.is.null,locked_until.lt.${now.toISOString()}`)
+    .select("id");
+
+  if (error) {
+    throw new Error(`Failed to claim job: ${error.message}`);
+  }
+  return (data ?? []).length > 0;
+}
+
+export async function releaseJob(client: SupabaseClient, jobId: string): Promise<void> {
+  await client.from("jobs").update({ locked_until: null }).eq("id", jobId);
+}
@@ -0,0 +1,114 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { STEP_KEYS, isLipSyncStepKey, isRenderStepKey, type JobStep, type StepStatus } from "./pipeline.ts";
+import { log } from "./utils.ts";
+
+// Mirrors JobProgress in src/types/veosync.ts
+export type ProgressStage = "lipsync" | "broll" | "manifest" | "ready";
+
+export interface SceneProgress {
+  index: number;
+  type: string;
+  // Null when nothing renders for the scene (an avatar scene outside every hero segment)
+  step_key: string | null;
+  status: StepStatus;
+  provider: string | null;
+  operation_id: string | null;
+}
+
+export interface JobProgress {
+  stage: ProgressStage;
+  scenes_total: number;
+  scenes_completed: number;
+  eta_sec: number | null;
+  scenes: SceneProgress[];
+  updated_at: string;
+}
+
+// Typical provider turnaround, used only for the ETA shown to the user
+const EXPECTED_DURATION_SEC = {
+  lipsync: 180,
+  broll: 90,
+};
+
+const ETA_GRANULARITY_SEC = 5;
+
+function isActive(step: JobStep): boolean {
+  return step.status === "pending" || step.status === "running";
+}
+
+function estimateRemainingSec(step: JobStep): number {
+  const expected = isLipSyncStepKey(step.step_key) ? EXPECTED_DURATION_SEC.lipsync : EXPECTED_DURATION_SEC.broll;
+  if (step.status !== "running" || !step.started_at) {
+    return expected;
+  }
+  const elapsed = (Date.now() - Date.parse(step.started_at)) / 1000;
+  return Math.max(ETA_GRANULARITY_SEC, expected - elapsed);
+}
+
+// sceneStepKeys holds the step rendering each scene, in storyboard order
+export function buildProgress(
+  storyboard: { type: string }[],
+  sceneStepKeys: (string | null)[],
+  steps: JobStep[]
+): JobProgress {
+  const byKey = new Map(steps.map((step) => [step.step_key, step]));
+
+  const scenes: SceneProgress[] = storyboard.map((scene, index) => {
+    const stepKey = sceneStepKeys[index];
+    const step = stepKey ? byKey.get(stepKey) : undefined;
+    return {
+      index,
+      type: scene.type,
+      step_key: stepKey,
+      status: stepKey ? step?.status ?? "pending" : "done",
+      provider: (step?.input.provider as string | undefined) ?? null,
+      operation_id: (step?.output.operation_id as string | undefined) ?? null,
+    };
+  });
+
+  const renderSteps = steps.filter((step) => isRenderStepKey(step.step_key));
+  const activeSteps = renderSteps.filter(isActive);
+
+  let stage: ProgressStage;
+  if (byKey.get(STEP_KEYS.MANIFEST)?.status === "done") {
+    stage = "ready";
+  } else if (activeSteps.some((step) => isLipSyncStepKey(step.step_key))) {
+    stage = "lipsync";
+  } else if (activeSteps.length > 0) {
+    stage = "broll";
+  } else {
+    stage = "manifest";
+  }
+
+  // Steps run concurrently, so the slowest outstanding step bounds the ETA
+  const eta = activeSteps.length > 0
+    ? Math.max(...activeSteps.map(estimateRemainingSec))
+    : stage === "ready" ? null : 0;
+
+  return {
+    stage,
+    scenes_total: scenes.length,
+    scenes_completed: scenes.filter((scene) => scene.status === "done" || scene.status === "error").length,
+    eta_sec: eta === null ? null : Math.ceil(eta / ETA_GRANULARITY_SEC) * ETA_GRANULARITY_SEC,
+    scenes,
+    updated_at: new Date().toISOString(),
+  };
+}
+
+// Write progress to the job row (picked up by the realtime subscription), skipping no-op updates
+export function createProgressPublisher(client: SupabaseClient, jobId: string) {
+  let lastPublished = "";
+
+  return async (progress: JobProgress): Promise<void> => {
+    const { updated_at: _updatedAt, ...comparable } = progress;
+    const snapshot = JSON.stringify(comparable);
+    if (snapshot === lastPublished) return;
+
+    lastPublished = snapshot;
+    const { error } = await client.from("jobs").update({ progress }).eq("id", jobId);
+    if (error) {
+      // Progress is advisory; never fail the pipeline over it
+      log('warn', 'Failed to publish progress', { jobId, error: error.message });
+    }
+  };
+}
@@ -0,0 +1,53 @@
+import { log } from "../utils.ts";
+import { veoProvider } from "./veo.ts";
+import { syncSoProvider } from "./syncso.ts";
+import { stubLipSyncProvider, stubVideoProvider } from "./stub.ts";
+import type { LipSyncProvider, VideoProvider } from "./types.ts";
+
+export type { AudioWindow, LipSyncProvider, LipSyncRequest, OperationStatus, VideoClipRequest, VideoProvider } from "./types.ts";
+
+const VIDEO_PROVIDERS: Record<string, VideoProvider> = {
+  [veoProvider.id]: veoProvider,
+  [stubVideoProvider.id]: stubVideoProvider,
+};
+
+const LIPSYNC_PROVIDERS: Record<string, LipSyncProvider> = {
+  [syncSoProvider.id]: syncSoProvider,
+  [stubLipSyncProvider.id]: stubLipSyncProvider,
+};
+
+export interface ProviderSelection {
+  video: VideoProvider;
+  lipsync: LipSyncProvider;
+}
+
+function pick<T extends { id: string }>(registry: Record<string, T>, requested: unknown, fallback: T, kind: string): T {
+  if (typeof requested === "string" && requested in registry) {
+    return registry[requested];
+  }
+  if (requested !== undefined && requested !== null) {
+    log('warn', `Unknown ${kind} provider, using default`, { requested, fallback: fallback.id });
+  }
+  return fallback;
+}
+
+export function getVideoProvider(id: string): VideoProvider | undefined {
+  return VIDEO_PROVIDERS[id];
+}
+
+export function getLipSyncProvider(id: string): LipSyncProvider | undefined {
+  return LIPSYNC_PROVIDERS[id];
+}
+
+/**
+ * Resolve the providers for a job. Per-job config (jobs.providers) wins,
+ * then the VIDEO_PROVIDER / LIPSYNC_PROVIDER env defaults.
+ */
+export function resolveProviders(config: unknown): ProviderSelection {
+  const requested = (config && typeof config === "object" ? config : {}) as Record<string, unknown>;
+
+  return {
+    video: pick(VIDEO_PROVIDERS, requested.video ?? Deno.env.get("VIDEO_PROVIDER"), veoProvider, "video"),
+    lipsync: pick(LIPSYNC_PROVIDERS, requested.lipsync ?? Deno.env.get("LIPSYNC_PROVIDER"), syncSoProvider, "lip-sync"),
+  };
+}
@@ -0,0 +1,45 @@
+import type { LipSyncProvider, OperationStatus, VideoProvider } from "./types.ts";
+
+// Sample clips bundled with the web app under public/samples/
+const STUB_BROLL_CLIPS = ["broll-1.mp4", "broll-2.mp4", "broll-3.mp4"];
+const STUB_LIPSYNC_CLIP = "lipsync.mp4";
+const OPERATION_PREFIX = "stub:";
+
+function getBaseUrl(): string {
+  const base = Deno.env.get("STUB_CLIP_BASE_URL")
+    ?? `${Deno.env.get("APP_URL") ?? "http://localhost:8080"}/samples`;
+  return base.replace(/\/$/, "");
+}
+
+// Same prompt always maps to the same sample, so runs are reproducible
+function pickClip(prompt: string): string {
+  let hash = 0;
+  for (let i = 0; i < prompt.length; i++) {
+    hash = (hash * 31 + prompt.charCodeAt(i)) >>> 0;
+  }
+  return STUB_BROLL_CLIPS[hash % STUB_BROLL_CLIPS.length];
+}
+
+// The operation id carries the chosen clip, so polling needs no state
+function pollStub(operationId: string): Promise<OperationStatus> {
+  if (!operationId.startsWith(OPERATION_PREFIX)) {
+    return Promise.resolve({ done: true, error: `Unknown stub operation ${operationId}` });
+  }
+  const clip = operationId.slice(OPERATION_PREFIX.length);
+  return Promise.resolve({ done: true, url: `${getBaseUrl()}/${clip}` });
+}
+
+// Deterministic offline providers for local development and tests
+export const stubVideoProvider: VideoProvider = {
+  id: "stub",
+  isConfigured: () => true,
+  submit: (request) => Promise.resolve(`${OPERATION_PREFIX}${pickClip(request.prompt)}`),
+  poll: pollStub,
+};
+
+export const stubLipSyncProvider: LipSyncProvider = {
+  id: "stub",
+  isConfigured: () => true,
+  submit: () => Promise.resolve(`${OPERATION_PREFIX}${STUB_LIPSYNC_CLIP}`),
+  poll: pollStub,
+};
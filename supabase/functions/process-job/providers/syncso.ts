@@ -0,0 +1,82 @@
+import { log, withRetry } from "../utils.ts";
+import type { LipSyncProvider, LipSyncRequest, OperationStatus } from "./types.ts";
+
+function getApiKey(): string {
+  return Deno.env.get("SYNC_SO_API") ?? "";
+}
+
+// Sync.so lip-sync
+export const syncSoProvider: LipSyncProvider = {
+  id: "syncso",
+
+  isConfigured() {
+    return !!Deno.env.get("SYNC_SO_API");
+  },
+
+  async submit(request: LipSyncRequest): Promise<string> {
+    return await withRetry(async () => {
+      log('info', 'Submitting lip-sync to Sync.so');
+      
+      const response = await fetch("https://api.sync.so/v2/generate", {
+        method: "POST",
+        headers: {
+          "x-api-key": getApiKey(),
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          model: "lipsync-1.9.0-beta",
+          input: [
+            { type: "video", url: request.selfie_url },
+            { type: "audio", url: request.audio_url, refId: "audio" },
+          ],
+          ...(request.audio_window
+            ? {
+                segments: [{
+                  startTime: 0,
+                  endTime: request.audio_window.end_sec - request.audio_window.start_sec,
+                  audioInput: {
+                    refId: "audio",
+                    startTime: request.audio_window.start_sec,
+                    endTime: request.audio_window.end_sec,
+                  },
+                }],
+              }
+            : {}),
+          options: {
+            output_format: "mp4",
+            aspect_ratio: request.aspect_ratio,
+          },
+        }),
+      });
+
+      if (!response.ok) {
+        const err = await response.text();
+        throw new Error(`Sync.so API error: ${response.status} - ${err}`);
+      }
+
+      const data = await response.json();
+      log('info', 'Sync.so job created', { syncJobId: data.id });
+      return data.id as string;
+    }, { maxRetries: 2, context: 'Sync.so lip-sync submission' });
+  },
+
+  async poll(operationId: string): Promise<OperationStatus> {
+    const statusResp = await fetch(`https://api.sync.so/v2/generate/${operationId}`, {
+      headers: { "x-api-key": getApiKey() },
+    });
+
+    if (!statusResp.ok) {
+      throw new Error(`Sync.so status error: ${statusResp.status}`);
+    }
+
+    const statusData = await statusResp.json();
+
+    if (statusData.status === "COMPLETED") {
+      return { done: true, url: statusData.output_url || statusData.output?.[0]?.url };
+    }
+    if (statusData.status === "FAILED") {
+      return { done: true, error: `Sync.so job failed: ${statusData.error}` };
+    }
+    return { done: false };
+  },
+};
@@ -0,0 +1,42 @@
+// Contracts every video-generation vendor implements. Generation is split
+// into submit/poll so the step pipeline can resume across invocations.
+
+export interface OperationStatus {
+  done: boolean;
+  url?: string | null;
+  error?: string;
+}
+
+export interface VideoClipRequest {
+  prompt: string;
+  duration_sec: number;
+  aspect_ratio: string;
+  // Look to push the clip towards (from the job's style chips)
+  style?: string;
+}
+
+export interface AudioWindow {
+  start_sec: number;
+  end_sec: number;
+}
+
+export interface LipSyncRequest {
+  selfie_url: string;
+  audio_url: string;
+  // Only this part of the audio is sung; omitted means the whole track
+  audio_window?: AudioWindow;
+  aspect_ratio: string;
+}
+
+interface AsyncProvider<TRequest> {
+  id: string;
+  // Whether credentials/config are present; unconfigured providers are skipped
+  isConfigured(): boolean;
+  // Start a generation and return an opaque operation id
+  submit(request: TRequest): Promise<string>;
+  poll(operationId: string): Promise<OperationStatus>;
+}
+
+export type VideoProvider = AsyncProvider<VideoClipRequest>;
+
+export type LipSyncProvider = AsyncProvider<LipSyncRequest>;
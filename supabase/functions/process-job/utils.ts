@@ -0,0 +1,37 @@
+// Logging helper
+export function log(level: 'info' | 'warn' | 'error', message: string, context?: Record<string, unknown>) {
+  const timestamp = new Date().toISOString();
+  const logEntry = JSON.stringify({ timestamp, level, message, ...context });
+  if (level === 'error') {
+    console.error(logEntry);
+  } else if (level === 'warn') {
+    console.warn(logEntry);
+  } else {
+    console.log(logEntry);
+  }
+}
+
+// Retry helper with exponential backoff
+export async function withRetry<T>(
+  fn: () => Promise<T>,
+  options: { maxRetries?: number; baseDelay?: number; context?: string } = {}
+): Promise<T> {
+  const { maxRetries = 3, baseDelay = 1000, context = 'operation' } = options;
+  let lastError: Error | null = null;
+  
+  for (let attempt = 1; attempt <= maxRetries; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      lastError = error instanceof Error ? error : new Error(String(error));
+      log('warn', `${context} failed (attempt ${attempt}/${maxRetries})`, { error: lastError.message });
+      
+      if (attempt < maxRetries) {
+        const delay = baseDelay * Math.pow(2, attempt - 1);
+        await new Promise(r => setTimeout(r, delay));
+      }
+    }
+  }
+  
+  throw lastError;
+}
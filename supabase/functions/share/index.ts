@@ -0,0 +1,176 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// How long a viewer's video link lasts, never past the share's own expiry
+const SIGNED_URL_TTL = 3600;
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+interface SharedJob {
+  id: string;
+  user_id: string;
+  root_job_id: string | null;
+  status: string;
+  emotion: string;
+  platform: string | null;
+  result_url: string | null;
+  assembly_manifest: { upload_target?: { bucket: string; path: string } } | null;
+}
+
+const JOB_COLUMNS = "id, user_id, root_job_id, status, emotion, platform, result_url, assembly_manifest";
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+
+interface ShareView {
+  id: string;
+  title: string;
+  description: string;
+  video_url: string;
+  poster_url: string | null;
+  aspect_ratio: string;
+  view_count: number;
+  expires_at: string | null;
+}
+
+// Link unfurlers don't run JavaScript, so the app host rewrites their
+// requests for /v/:id to ?format=html and they get the card metadata as
+// plain HTML; anyone else landing here is sent on to the player page
+function previewHtml(share: ShareView, pageUrl: string) {
+  const [width, height] = share.aspect_ratio === "16:9" ? [1280, 720]
+    : share.aspect_ratio === "1:1" ? [1080, 1080]
+    : share.aspect_ratio === "4:5" ? [1080, 1350]
+    : [720, 1280];
+  const meta = [
+    ["og:type", "video.other"],
+    ["og:title", share.title],
+    ["og:description", share.description],
+    ["og:url", pageUrl],
+    ["og:video", share.video_url],
+    ["og:video:type", "video/mp4"],
+    ["og:video:width", String(width)],
+    ["og:video:height", String(height)],
+    ...(share.poster_url ? [["og:image", share.poster_url]] : []),
+  ].map(([property, content]) => `<meta property="${property}" content="${escapeHtml(content)}" />`);
+  const twitter = [
+    ["twitter:card", share.poster_url ? "summary_large_image" : "summary"],
+    ["twitter:title", share.title],
+    ["twitter:description", share.description],
+    ...(share.poster_url ? [["twitter:image", share.poster_url]] : []),
+  ].map(([name, content]) => `<meta name="${name}" content="${escapeHtml(content)}" />`);
+
+  return `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <title>${escapeHtml(share.title)}</title>
+    ${[...meta, ...twitter].join("\n    ")}
+    <meta http-equiv="refresh" content="0;url=${escapeHtml(pageUrl)}" />
+  </head>
+  <body><a href="${escapeHtml(pageUrl)}">Watch on VeoSync</a></body>
+</html>`;
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Shares are public, so lookups go through the service role
+    const supabaseClient = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+    );
+
+    const url = new URL(req.url);
+    const shareId = url.searchParams.get("id");
+    if (!shareId) {
+      return jsonResponse({ error: "Share ID required" }, 400);
+    }
+
+    const { data: share } = await supabaseClient
+      .from("shares")
+      .select(`id, poster_path, expires_at, revoked_at, view_count, jobs(${JOB_COLUMNS})`)
+      .eq("id", shareId)
+      .maybeSingle();
+
+    const sharedJob = share?.jobs as unknown as SharedJob | null;
+    if (!share || !sharedJob) {
+      return jsonResponse({ error: "Share not found" }, 404);
+    }
+
+    // Links play whichever version of the video its owner has made current; only
+    // the owner's own jobs count as versions of it
+    const rootId = sharedJob.root_job_id ?? sharedJob.id;
+    const { data: current } = await supabaseClient
+      .from("jobs")
+      .select(JOB_COLUMNS)
+      .eq("user_id", sharedJob.user_id)
+      .or(`id.eq.${rootId},root_job_id.eq.${rootId}`)
+      .eq("is_current", true)
+      .eq("status", "done")
+      .maybeSingle();
+    const job = (current as SharedJob | null) ?? sharedJob;
+    if (job.status !== "done" || !job.result_url) {
+      return jsonResponse({ error: "Share not found" }, 404);
+    }
+
+    const expiresAt = share.expires_at ? new Date(share.expires_at).getTime() : null;
+    if (share.revoked_at || (expiresAt !== null && expiresAt <= Date.now())) {
+      return jsonResponse({ error: "This link has expired" }, 410);
+    }
+
+    const ttl = expiresAt === null
+      ? SIGNED_URL_TTL
+      : Math.max(60, Math.min(SIGNED_URL_TTL, Math.floor((expiresAt - Date.now()) / 1000)));
+    const sign = async (bucket: string, path: string) => {
+      const { data } = await supabaseClient.storage.from(bucket).createSignedUrl(path, ttl);
+      return data?.signedUrl ?? null;
+    };
+
+    // Older jobs without an upload target keep whatever URL they were given
+    const target = job.assembly_manifest?.upload_target;
+    const videoUrl = (target && await sign(target.bucket, target.path)) || job.result_url;
+    const posterUrl = share.poster_path ? await sign("outputs", share.poster_path) : null;
+    const emotion = job.emotion.charAt(0).toUpperCase() + job.emotion.slice(1);
+
+    const view: ShareView = {
+      id: share.id,
+      title: `${emotion} — made with VeoSync`,
+      description: `A ${emotion.toLowerCase()} music video made with VeoSync.`,
+      video_url: videoUrl,
+      poster_url: posterUrl,
+      aspect_ratio: job.platform ?? "9:16",
+      view_count: share.view_count,
+      expires_at: share.expires_at,
+    };
+
+    if (url.searchParams.get("format") === "html") {
+      const appUrl = Deno.env.get("APP_URL") || url.origin;
+      return new Response(previewHtml(view, `${appUrl}/v/${share.id}`), {
+        headers: { ...corsHeaders, "Content-Type": "text/html; charset=utf-8" },
+      });
+    }
+
+    // Only the player counts as a view, not preview fetches
+    const { error: viewError } = await supabaseClient.rpc("record_share_view", { p_share_id: share.id });
+    if (viewError) {
+      console.error("Failed to record share view:", viewError);
+    }
+
+    return jsonResponse({ ...view, view_count: share.view_count + 1 });
+  } catch (error) {
+    console.error("Share lookup error:", error);
+    return jsonResponse({ error: "Failed to load this video" }, 500);
+  }
+});
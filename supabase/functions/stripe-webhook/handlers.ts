@@ -0,0 +1,317 @@
+import type Stripe from "https://esm.sh/stripe@14.21.0";
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { addCredits, grantCredits } from "../_shared/credits.ts";
+import { PLAN_ENTITLEMENTS, planForPrice, type PlanId } from "../_shared/plans.ts";
+import type { EventOutcome } from "./ledger.ts";
+
+interface SubscriptionState {
+  status: string;
+  current_period_end: number;
+  price_id: string | null;
+  plan: PlanId;
+}
+
+// Renewal failures keep paid features on this long while Stripe retries the card
+const GRACE_PERIOD_DAYS = 7;
+
+// past_due keeps the plan; create-job stops honouring it once the grace period ends
+const PAID_STATUSES = ["active", "trialing", "past_due"];
+
+// The tier follows the subscription's price, so plan changes made anywhere in Stripe land here
+const planFor = (status: string, priceId: string | null): PlanId =>
+  PAID_STATUSES.includes(status) ? planForPrice(priceId) : "free";
+
+const isoTime = (unixSeconds: number) => new Date(unixSeconds * 1000).toISOString();
+
+// Dunning fields on the profile; unset keys are left as they are
+interface BillingPatch {
+  past_due_since?: string | null;
+  grace_period_ends_at?: string | null;
+  trial_ends_at?: string | null;
+}
+
+function subscriptionState(subscription: Stripe.Subscription, status = subscription.status): SubscriptionState {
+  const priceId = subscription.items.data[0]?.price.id ?? null;
+  return {
+    status,
+    current_period_end: subscription.current_period_end,
+    price_id: priceId,
+    plan: planFor(status, priceId),
+  };
+}
+
+// Null when no profile has this customer; lookup failures throw so the event is retried
+async function findUserId(client: SupabaseClient, customerId: string): Promise<string | null> {
+  const { data, error } = await client
+    .from("profiles")
+    .select("id")
+    .eq("stripe_customer_id", customerId)
+    .maybeSingle();
+  if (error) {
+    throw new Error(`Failed to look up customer ${customerId}: ${error.message}`);
+  }
+  return data?.id ?? null;
+}
+
+/**
+ * Write the subscription unless a newer event already has. Every handler
+ * goes through here, so processing an event twice, or an older event
+ * after a newer one, leaves the newest state in place.
+ */
+async function applySubscription(
+  client: SupabaseClient,
+  event: Stripe.Event,
+  customerId: string,
+  state: SubscriptionState
+): Promise<EventOutcome> {
+  const userId = await findUserId(client, customerId);
+  if (!userId) {
+    console.error(`[${new Date().toISOString()}] STRIPE-WEBHOOK: Profile not found for customer ${customerId}`);
+    return { status: "skipped", note: `No profile for customer ${customerId}` };
+  }
+
+  const { data: applied, error } = await client.rpc("apply_subscription_event", {
+    p_user_id: userId,
+    p_status: state.status,
+    p_current_period_end: isoTime(state.current_period_end),
+    p_price_id: state.price_id,
+    p_plan: state.plan,
+    p_event_at: isoTime(event.created),
+  });
+  if (error) {
+    throw new Error(`Failed to apply subscription for user ${userId}: ${error.message}`);
+  }
+  if (!applied) {
+    console.log(`[${new Date().toISOString()}] STRIPE-WEBHOOK: Ignoring stale ${event.type} (${event.id}) for user ${userId}`);
+    return { status: "skipped", note: "A newer event already set this subscription" };
+  }
+
+  console.log(`[${new Date().toISOString()}] STRIPE-WEBHOOK: Subscription ${state.status} (${state.plan}) for user ${userId}`);
+  return { status: "processed" };
+}
+
+/**
+ * Update the profile's dunning state unless a newer billing event already
+ * has, the same ordering rule subscriptions follow.
+ */
+async function applyBilling(
+  client: SupabaseClient,
+  event: Stripe.Event,
+  customerId: string,
+  patch: BillingPatch
+): Promise<EventOutcome> {
+  const userId = await findUserId(client, customerId);
+  if (!userId) {
+    console.error(`[${new Date().toISOString()}] STRIPE-WEBHOOK: Profile not found for customer ${customerId}`);
+    return { status: "skipped", note: `No profile for customer ${customerId}` };
+  }
+
+  const eventAt = isoTime(event.created);
+  const { data, error } = await client
+    .from("profiles")
+    .update({ ...patch, billing_event_at: eventAt })
+    .eq("id", userId)
+    .or(`billing_event_at.is.null,billing_event_at.lte.${eventAt}`)
+    .select("id");
+  if (error) {
+    throw new Error(`Failed to update billing state for user ${userId}: ${error.message}`);
+  }
+  if (!data || data.length === 0) {
+    console.log(`[${new Date().toISOString()}] STRIPE-WEBHOOK: Ignoring stale ${event.type} (${event.id}) for user ${userId}`);
+    return { status: "skipped", note: "A newer event already set this billing state" };
+  }
+
+  console.log(`[${new Date().toISOString()}] STRIPE-WEBHOOK: Billing state from ${event.type} for user ${userId}`, patch);
+  return { status: "processed" };
+}
+
+// Invoices that start a billing period come with that tier's allowance
+const GRANTING_BILLING_REASONS = ["subscription_create", "subscription_cycle"];
+
+/**
+ * Top the user's credits up to the allowance of the plan an invoice paid
+ * for. Keyed on the invoice, so redeliveries and replays grant it once.
+ * Upgrade invoices go through grantUpgradeCredits instead.
+ */
+async function grantInvoiceCredits(client: SupabaseClient, invoice: Stripe.Invoice): Promise<EventOutcome> {
+  if (invoice.billing_reason === "subscription_update") {
+    return grantUpgradeCredits(client, invoice);
+  }
+  if (!GRANTING_BILLING_REASONS.includes(invoice.billing_reason ?? "")) {
+    return { status: "skipped", note: `No credits for ${invoice.billing_reason} invoices` };
+  }
+  const userId = await findUserId(client, invoice.customer as string);
+  if (!userId) {
+    return { status: "skipped", note: `No profile for customer ${invoice.customer}` };
+  }
+
+  // The dearest line is the plan being paid for; a renewal can also carry a downgrade's prorated credit
+  const line = (invoice.lines.data as Stripe.InvoiceLineItem[])
+    .filter((candidate) => candidate.price)
+    .sort((a, b) => b.amount - a.amount)[0];
+  const plan = planForPrice(line?.price?.id ?? null);
+
+  const granted = await grantCredits(client, userId, PLAN_ENTITLEMENTS[plan].monthly_credits, invoice.id);
+  if (granted === null) {
+    return { status: "skipped", note: "Credits for this invoice were already granted" };
+  }
+  console.log(`[${new Date().toISOString()}] STRIPE-WEBHOOK: Granted ${granted} ${plan} credits to user ${userId}`);
+  return { status: "processed" };
+}
+
+/**
+ * Add the difference between the new and old plans' allowances when a tier
+ * change is invoiced mid-period. Keyed on the subscription's current period,
+ * so switching back and forth within it grants the difference only once;
+ * the next renewal tops up to the new plan's allowance as usual.
+ */
+async function grantUpgradeCredits(client: SupabaseClient, invoice: Stripe.Invoice): Promise<EventOutcome> {
+  const userId = await findUserId(client, invoice.customer as string);
+  if (!userId) {
+    return { status: "skipped", note: `No profile for customer ${invoice.customer}` };
+  }
+
+  // The charge for the rest of the period is the new plan; the credit for its unused part the old one
+  const lines = (invoice.lines.data as Stripe.InvoiceLineItem[])
+    .filter((candidate) => candidate.price)
+    .sort((a, b) => b.amount - a.amount);
+  const newLine = lines[0];
+  const oldLine = lines[lines.length - 1];
+  if (!newLine || newLine === oldLine || oldLine.amount >= 0) {
+    return { status: "skipped", note: "Tier change invoice has no prorated plan lines" };
+  }
+  const newPlan = planForPrice(newLine.price?.id ?? null);
+  const oldPlan = planForPrice(oldLine.price?.id ?? null);
+  const difference = PLAN_ENTITLEMENTS[newPlan].monthly_credits - PLAN_ENTITLEMENTS[oldPlan].monthly_credits;
+  if (difference <= 0) {
+    return { status: "skipped", note: `No credits for moving from ${oldPlan} to ${newPlan}` };
+  }
+
+  const source = `upgrade:${invoice.subscription}:${newLine.period.end}`;
+  const granted = await addCredits(client, userId, difference, source);
+  if (granted === null) {
+    return { status: "skipped", note: "Upgrade credits for this period were already granted" };
+  }
+  console.log(`[${new Date().toISOString()}] STRIPE-WEBHOOK: Granted ${granted} credits for ${oldPlan} -> ${newPlan} to user ${userId}`);
+  return { status: "processed" };
+}
+
+// Refunds are only shown to the user, so they don't take part in ordering
+async function recordRefund(client: SupabaseClient, event: Stripe.Event, charge: Stripe.Charge): Promise<EventOutcome> {
+  const customerId = charge.customer as string | null;
+  if (!customerId) {
+    return { status: "skipped", note: "Charge has no customer" };
+  }
+  const userId = await findUserId(client, customerId);
+  if (!userId) {
+    return { status: "skipped", note: `No profile for customer ${customerId}` };
+  }
+
+  const { error } = await client
+    .from("profiles")
+    .update({
+      last_refund: {
+        amount: charge.amount_refunded,
+        currency: charge.currency,
+        full: charge.refunded,
+        refunded_at: isoTime(event.created),
+      },
+    })
+    .eq("id", userId);
+  if (error) {
+    throw new Error(`Failed to record refund for user ${userId}: ${error.message}`);
+  }
+
+  console.log(`[${new Date().toISOString()}] STRIPE-WEBHOOK: Refund of ${charge.amount_refunded} ${charge.currency} for user ${userId}`);
+  return { status: "processed" };
+}
+
+/**
+ * Apply one event. Used by the webhook and the replay command; throws on
+ * failures worth retrying (Stripe or the database being unreachable).
+ */
+export async function processEvent(
+  stripe: Stripe,
+  client: SupabaseClient,
+  event: Stripe.Event
+): Promise<EventOutcome> {
+  switch (event.type) {
+    case "checkout.session.completed": {
+      const session = event.data.object as Stripe.Checkout.Session;
+      const subscriptionId = session.subscription as string | null;
+      if (!subscriptionId) {
+        console.log(`[${new Date().toISOString()}] STRIPE-WEBHOOK: No subscription ID in checkout session`);
+        return { status: "skipped", note: "Checkout session has no subscription" };
+      }
+
+      const subscription = await stripe.subscriptions.retrieve(subscriptionId);
+      return applySubscription(client, event, session.customer as string, subscriptionState(subscription));
+    }
+
+    case "customer.subscription.updated": {
+      const subscription = event.data.object as Stripe.Subscription;
+      return applySubscription(client, event, subscription.customer as string, subscriptionState(subscription));
+    }
+
+    case "customer.subscription.deleted": {
+      const subscription = event.data.object as Stripe.Subscription;
+      const outcome = await applySubscription(
+        client,
+        event,
+        subscription.customer as string,
+        subscriptionState(subscription, "canceled")
+      );
+      if (outcome.status !== "processed") return outcome;
+      // Nothing left to pay for, so nothing left to nag about
+      return applyBilling(client, event, subscription.customer as string, {
+        past_due_since: null,
+        grace_period_ends_at: null,
+        trial_ends_at: null,
+      });
+    }
+
+    case "customer.subscription.trial_will_end": {
+      const subscription = event.data.object as Stripe.Subscription;
+      if (subscription.default_payment_method) {
+        return { status: "skipped", note: "A card is already on file" };
+      }
+      return applyBilling(client, event, subscription.customer as string, {
+        trial_ends_at: subscription.trial_end ? isoTime(subscription.trial_end) : null,
+      });
+    }
+
+    case "invoice.paid": {
+      const invoice = event.data.object as Stripe.Invoice;
+      if (!invoice.subscription) {
+        return { status: "skipped", note: "Not a subscription invoice" };
+      }
+      const billing = await applyBilling(client, event, invoice.customer as string, {
+        past_due_since: null,
+        grace_period_ends_at: null,
+        trial_ends_at: null,
+      });
+      // Granting doesn't depend on event order, so a stale billing update still grants
+      const credits = await grantInvoiceCredits(client, invoice);
+      return billing.status === "processed" ? billing : credits;
+    }
+
+    case "invoice.payment_failed": {
+      const invoice = event.data.object as Stripe.Invoice;
+      if (!invoice.subscription) {
+        return { status: "skipped", note: "Not a subscription invoice" };
+      }
+      // Anchored on the invoice, so every retry of it keeps the same deadline
+      return applyBilling(client, event, invoice.customer as string, {
+        past_due_since: isoTime(invoice.created),
+        grace_period_ends_at: isoTime(invoice.created + GRACE_PERIOD_DAYS * 86400),
+      });
+    }
+
+    case "charge.refunded":
+      return recordRefund(client, event, event.data.object as Stripe.Charge);
+
+    default:
+      console.log(`[${new Date().toISOString()}] STRIPE-WEBHOOK: Unhandled event type ${event.type}`);
+      return { status: "skipped", note: "Unhandled event type" };
+  }
+}
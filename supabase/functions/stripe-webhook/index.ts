@@ -1,6 +1,8 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import Stripe from "https://esm.sh/stripe@14.21.0";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { processEvent } from "./handlers.ts";
+import { claimEvent, isSettled, markEvent, recordEvent } from "./ledger.ts";
 
 // Validate required environment variables at startup
 const REQUIRED_ENV_VARS = [
@@ -60,129 +62,45 @@ serve(async (req) => {
       Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
     );
 
-    switch (event.type) {
-      case "checkout.session.completed": {
-        const session = event.data.object as Stripe.Checkout.Session;
-        const customerId = session.customer as string;
-        const subscriptionId = session.subscription as string;
-
-        if (!subscriptionId) {
-          console.log(`[${new Date().toISOString()}] STRIPE-WEBHOOK: No subscription ID in checkout session`);
-          break;
-        }
-
-        // Get subscription details
-        const subscription = await stripe.subscriptions.retrieve(subscriptionId);
-        
-        // Find user by customer ID
-        const { data: profile, error: profileError } = await supabaseAdmin
-          .from("profiles")
-          .select("id")
-          .eq("stripe_customer_id", customerId)
-          .single();
-
-        if (profileError || !profile) {
-          console.error(`[${new Date().toISOString()}] STRIPE-WEBHOOK: Profile not found for customer ${customerId}`);
-          break;
-        }
-
-        // Upsert subscription
-        const { error: subError } = await supabaseAdmin.from("subscriptions").upsert({
-          user_id: profile.id,
-          status: subscription.status,
-          current_period_end: new Date(subscription.current_period_end * 1000).toISOString(),
-          price_id: subscription.items.data[0]?.price.id,
-          updated_at: new Date().toISOString(),
-        });
-
-        if (subError) {
-          console.error(`[${new Date().toISOString()}] STRIPE-WEBHOOK: Failed to upsert subscription -`, subError);
-        }
-
-        // Update profile plan
-        const { error: planError } = await supabaseAdmin
-          .from("profiles")
-          .update({ plan: "creator" })
-          .eq("id", profile.id);
-
-        if (planError) {
-          console.error(`[${new Date().toISOString()}] STRIPE-WEBHOOK: Failed to update profile plan -`, planError);
-        }
-
-        console.log(`[${new Date().toISOString()}] STRIPE-WEBHOOK: Updated subscription for user ${profile.id}`);
-        break;
-      }
-
-      case "customer.subscription.updated": {
-        const subscription = event.data.object as Stripe.Subscription;
-        const customerId = subscription.customer as string;
-
-        const { data: profile } = await supabaseAdmin
-          .from("profiles")
-          .select("id")
-          .eq("stripe_customer_id", customerId)
-          .single();
-
-        if (profile) {
-          await supabaseAdmin.from("subscriptions").upsert({
-            user_id: profile.id,
-            status: subscription.status,
-            current_period_end: new Date(subscription.current_period_end * 1000).toISOString(),
-            price_id: subscription.items.data[0]?.price.id,
-            updated_at: new Date().toISOString(),
-          });
-
-          const plan = subscription.status === "active" || subscription.status === "trialing" 
-            ? "creator" 
-            : "free";
-          
-          await supabaseAdmin
-            .from("profiles")
-            .update({ plan })
-            .eq("id", profile.id);
-
-          console.log(`[${new Date().toISOString()}] STRIPE-WEBHOOK: Subscription updated to ${subscription.status} for user ${profile.id}`);
-        }
-        break;
-      }
-
-      case "customer.subscription.deleted": {
-        const subscription = event.data.object as Stripe.Subscription;
-        const customerId = subscription.customer as string;
-
-        const { data: profile } = await supabaseAdmin
-          .from("profiles")
-          .select("id")
-          .eq("stripe_customer_id", customerId)
-          .single();
-
-        if (profile) {
-          await supabaseAdmin.from("subscriptions").upsert({
-            user_id: profile.id,
-            status: "canceled",
-            current_period_end: new Date(subscription.current_period_end * 1000).toISOString(),
-            price_id: subscription.items.data[0]?.price.id,
-            updated_at: new Date().toISOString(),
-          });
-
-          await supabaseAdmin
-            .from("profiles")
-            .update({ plan: "free" })
-            .eq("id", profile.id);
+    // Recording failures fall through to the 500 below so Stripe redelivers
+    const ledgerEvent = await recordEvent(supabaseAdmin, event);
+    if (isSettled(ledgerEvent)) {
+      console.log(`[${new Date().toISOString()}] STRIPE-WEBHOOK: Event ${event.id} already ${ledgerEvent.status}, skipping`);
+      return new Response(JSON.stringify({ received: true, duplicate: true }), {
+        headers: { "Content-Type": "application/json" },
+      });
+    }
 
-          console.log(`[${new Date().toISOString()}] STRIPE-WEBHOOK: Subscription canceled for user ${profile.id}`);
-        }
-        break;
-      }
+    // Another delivery of this event is being handled; Stripe retries this one,
+    // which finds the event settled, or failed and free to claim
+    const claimedEvent = await claimEvent(supabaseAdmin, ledgerEvent);
+    if (!claimedEvent) {
+      console.log(`[${new Date().toISOString()}] STRIPE-WEBHOOK: Event ${event.id} is being processed elsewhere`);
+      return new Response(JSON.stringify({ error: "Event is already being processed" }), {
+        status: 409,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
 
-      default:
-        console.log(`[${new Date().toISOString()}] STRIPE-WEBHOOK: Unhandled event type ${event.type}`);
+    try {
+      const outcome = await processEvent(stripe, supabaseAdmin, event);
+      await markEvent(supabaseAdmin, claimedEvent, outcome);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`[${new Date().toISOString()}] STRIPE-WEBHOOK: Failed to process ${event.type} (${event.id}) - ${message}`);
+      await markEvent(supabaseAdmin, claimedEvent, { status: "failed", error: message }).catch((markError) => {
+        console.error(`[${new Date().toISOString()}] STRIPE-WEBHOOK: Failed to record failure -`, markError);
+      });
+      // Stripe retries non-2xx deliveries with backoff
+      return new Response(JSON.stringify({ error: "Failed to process event" }), {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      });
     }
 
     const duration = Date.now() - startTime;
     console.log(`[${new Date().toISOString()}] STRIPE-WEBHOOK: Completed in ${duration}ms`);
 
-    // Always return 200 to prevent Stripe retries on internal errors
     return new Response(JSON.stringify({ received: true }), {
       headers: { "Content-Type": "application/json" },
     });
@@ -190,9 +108,8 @@ serve(async (req) => {
     const duration = Date.now() - startTime;
     console.error(`[${new Date().toISOString()}] STRIPE-WEBHOOK: Unexpected error after ${duration}ms -`, error);
     
-    // Return 200 even on errors to prevent Stripe retries
-    // The error is logged for debugging
-    return new Response(JSON.stringify({ received: true, error: "Internal processing error" }), {
+    return new Response(JSON.stringify({ error: "Internal processing error" }), {
+      status: 500,
       headers: { "Content-Type": "application/json" },
     });
   }
@@ -0,0 +1,125 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import type Stripe from "https://esm.sh/stripe@14.21.0";
+
+// received: stored, not yet handled; processing: claimed by a handler; skipped: handled with nothing to apply
+export type EventStatus = "received" | "processing" | "processed" | "skipped" | "failed";
+
+export interface LedgerEvent {
+  id: string;
+  type: string;
+  status: EventStatus;
+  attempts: number;
+  payload: Stripe.Event;
+}
+
+export interface EventOutcome {
+  status: "processed" | "skipped";
+  // Why an event was skipped, kept on the ledger row
+  note?: string;
+}
+
+const LEDGER_COLUMNS = "id, type, status, attempts, payload";
+
+// A handler that hasn't settled its event in this long is presumed dead, and its claim can be taken over
+const CLAIM_TIMEOUT_MS = 5 * 60 * 1000;
+
+// Settled events are never handled again unless replayed on purpose
+export const isSettled = (event: LedgerEvent) => event.status === "processed" || event.status === "skipped";
+
+function customerId(event: Stripe.Event): string | null {
+  const customer = (event.data.object as { customer?: string | { id: string } | null }).customer;
+  return typeof customer === "string" ? customer : customer?.id ?? null;
+}
+
+/**
+ * Store an incoming event, or load the stored copy when Stripe delivers it
+ * again. Throws when the ledger can't be reached so the delivery is retried.
+ */
+export async function recordEvent(client: SupabaseClient, event: Stripe.Event): Promise<LedgerEvent> {
+  const { error } = await client.from("stripe_events").upsert(
+    {
+      id: event.id,
+      type: event.type,
+      customer_id: customerId(event),
+      stripe_created_at: new Date(event.created * 1000).toISOString(),
+      payload: event,
+    },
+    { onConflict: "id", ignoreDuplicates: true }
+  );
+  if (error) {
+    throw new Error(`Failed to record event ${event.id}: ${error.message}`);
+  }
+
+  const { data, error: loadError } = await client
+    .from("stripe_events")
+    .select(LEDGER_COLUMNS)
+    .eq("id", event.id)
+    .single();
+  if (loadError || !data) {
+    throw new Error(`Failed to load event ${event.id}: ${loadError?.message}`);
+  }
+  return data as LedgerEvent;
+}
+
+/**
+ * Take an event for handling, in one conditional update, so concurrent
+ * deliveries of it don't both apply it. Null when it's settled or another
+ * handler holds a live claim on it; includeSettled lets a replay take
+ * processed and skipped events too.
+ */
+export async function claimEvent(
+  client: SupabaseClient,
+  event: LedgerEvent,
+  options: { includeSettled?: boolean } = {}
+): Promise<LedgerEvent | null> {
+  const claimable = options.includeSettled ? "received,failed,processed,skipped" : "received,failed";
+  const staleBefore = new Date(Date.now() - CLAIM_TIMEOUT_MS).toISOString();
+  const { data, error } = await client
+    .from("stripe_events")
+    .update({ status: "processing", claimed_at: new Date().toISOString() })
+    .eq("id", event.id)
+    .or(`status.in.(${claimable}),and(status.eq.processing,claimed_at.lt.${staleBefore})`)
+    .select(LEDGER_COLUMNS)
+    .maybeSingle();
+  if (error) {
+    throw new Error(`Failed to claim event ${event.id}: ${error.message}`);
+  }
+  return data as LedgerEvent | null;
+}
+
+// Stored events, oldest first, so replays apply state in the order Stripe created it
+export async function loadEvents(
+  client: SupabaseClient,
+  filter: { ids?: string[]; since?: string; unsettledOnly: boolean }
+): Promise<LedgerEvent[]> {
+  let query = client.from("stripe_events").select(LEDGER_COLUMNS);
+  if (filter.ids && filter.ids.length > 0) query = query.in("id", filter.ids);
+  if (filter.since) query = query.gte("stripe_created_at", filter.since);
+  // A processing event is only picked up again once its claim has gone stale
+  if (filter.unsettledOnly) query = query.in("status", ["received", "processing", "failed"]);
+
+  const { data, error } = await query.order("stripe_created_at", { ascending: true });
+  if (error) {
+    throw new Error(`Failed to load events: ${error.message}`);
+  }
+  return (data ?? []) as LedgerEvent[];
+}
+
+export async function markEvent(
+  client: SupabaseClient,
+  event: LedgerEvent,
+  outcome: EventOutcome | { status: "failed"; error: string }
+): Promise<void> {
+  const { error } = await client
+    .from("stripe_events")
+    .update({
+      status: outcome.status,
+      attempts: event.attempts + 1,
+      error: "error" in outcome ? outcome.error : outcome.note ?? null,
+      processed_at: outcome.status === "failed" ? null : new Date().toISOString(),
+    })
+    .eq("id", event.id);
+  if (error) {
+    throw new Error(`Failed to mark event ${event.id} ${outcome.status}: ${error.message}`);
+  }
+}
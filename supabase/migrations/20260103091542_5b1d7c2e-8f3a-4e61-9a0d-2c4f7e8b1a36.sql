@@ -0,0 +1,2 @@
+-- Persist the reviewed storyboard so clip rendering uses the user's edits
+ALTER TABLE public.jobs ADD COLUMN IF NOT EXISTS storyboard jsonb;
@@ -0,0 +1,34 @@
+-- Persisted pipeline steps so process-job can resume instead of starting over
+CREATE TABLE public.job_steps (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id uuid REFERENCES public.jobs ON DELETE CASCADE NOT NULL,
+  step_key text NOT NULL,
+  position integer NOT NULL DEFAULT 0,
+  status text NOT NULL DEFAULT 'pending',
+  attempts integer NOT NULL DEFAULT 0,
+  input jsonb DEFAULT '{}',
+  output jsonb DEFAULT '{}',
+  error text,
+  started_at timestamptz,
+  completed_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (job_id, step_key)
+);
+
+ALTER TABLE public.job_steps ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own job steps" ON public.job_steps
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM public.jobs WHERE jobs.id = job_steps.job_id AND jobs.user_id = auth.uid())
+  );
+
+CREATE INDEX IF NOT EXISTS idx_job_steps_job_position ON public.job_steps(job_id, position);
+
+CREATE TRIGGER update_job_steps_updated_at
+  BEFORE UPDATE ON public.job_steps
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Lease so overlapping process-job invocations don't run the same steps twice
+ALTER TABLE public.jobs ADD COLUMN IF NOT EXISTS locked_until timestamptz;
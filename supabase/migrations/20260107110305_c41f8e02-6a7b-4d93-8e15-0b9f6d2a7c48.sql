@@ -0,0 +1,2 @@
+-- Per-job video/lip-sync provider selection, e.g. {"video": "stub", "lipsync": "stub"}
+ALTER TABLE public.jobs ADD COLUMN IF NOT EXISTS providers jsonb;
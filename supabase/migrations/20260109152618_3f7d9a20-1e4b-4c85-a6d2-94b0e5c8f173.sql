@@ -0,0 +1,2 @@
+-- Live render progress published by process-job (stage, per-scene status, ETA)
+ALTER TABLE public.jobs ADD COLUMN IF NOT EXISTS progress jsonb;
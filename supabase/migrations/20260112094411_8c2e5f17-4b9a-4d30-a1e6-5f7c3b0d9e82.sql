@@ -0,0 +1,2 @@
+-- Timed lyric cues for burned-in captions: {"source": "aligned" | "estimated" | "manual", "cues": [...]}
+ALTER TABLE public.jobs ADD COLUMN IF NOT EXISTS captions jsonb;
@@ -0,0 +1,4 @@
+-- Selected excerpt of the uploaded song; NULL means the whole track from 0:00
+ALTER TABLE public.jobs
+  ADD COLUMN IF NOT EXISTS audio_start_sec numeric,
+  ADD COLUMN IF NOT EXISTS audio_end_sec numeric;
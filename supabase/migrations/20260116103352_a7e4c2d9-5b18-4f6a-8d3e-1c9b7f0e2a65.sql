@@ -0,0 +1,2 @@
+-- Tempo and beat/downbeat times detected from the uploaded song (seconds from its start)
+ALTER TABLE public.jobs ADD COLUMN IF NOT EXISTS beat_grid jsonb;
@@ -0,0 +1,6 @@
+-- Output aspect ratio per job, extra ratios to export alongside it, and where the selfie's subject sits for reframing
+ALTER TABLE public.jobs ADD COLUMN IF NOT EXISTS platform text NOT NULL DEFAULT '9:16';
+ALTER TABLE public.jobs ADD COLUMN IF NOT EXISTS export_platforms text[] NOT NULL DEFAULT '{}';
+ALTER TABLE public.jobs ADD COLUMN IF NOT EXISTS selfie_focus jsonb;
+-- Signed URLs of the extra exports, keyed by aspect ratio
+ALTER TABLE public.jobs ADD COLUMN IF NOT EXISTS outputs jsonb;
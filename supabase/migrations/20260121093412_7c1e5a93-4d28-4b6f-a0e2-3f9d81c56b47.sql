@@ -0,0 +1,3 @@
+-- Where each job's final video is rendered: in the browser ('client') or by the assembly worker ('server')
+ALTER TABLE public.jobs ADD COLUMN IF NOT EXISTS assembly_mode text NOT NULL DEFAULT 'client';
+CREATE INDEX IF NOT EXISTS idx_jobs_server_assembly ON public.jobs(updated_at) WHERE assembly_mode = 'server' AND status IN ('ready_for_assembly', 'assembling');
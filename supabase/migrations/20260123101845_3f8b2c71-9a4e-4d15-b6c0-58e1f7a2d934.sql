@@ -0,0 +1,3 @@
+-- Let users delete their own jobs from the library (job_steps cascade)
+CREATE POLICY "Users can delete own jobs" ON public.jobs
+  FOR DELETE USING (auth.uid() = user_id);
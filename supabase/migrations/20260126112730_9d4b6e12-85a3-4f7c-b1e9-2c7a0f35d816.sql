@@ -0,0 +1,44 @@
+-- Public share links for finished videos, with expiry, revocation and view counts
+CREATE TABLE public.shares (
+  id text PRIMARY KEY DEFAULT translate(encode(extensions.gen_random_bytes(9), 'base64'), '+/', '-_'),
+  job_id uuid REFERENCES public.jobs ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES auth.users ON DELETE CASCADE NOT NULL,
+  poster_path text,
+  expires_at timestamptz,
+  revoked_at timestamptz,
+  view_count integer NOT NULL DEFAULT 0,
+  last_viewed_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE public.shares ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own shares" ON public.shares
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can share own finished jobs" ON public.shares
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.jobs
+      WHERE jobs.id = shares.job_id AND jobs.user_id = auth.uid() AND jobs.status = 'done'
+    )
+  );
+
+CREATE POLICY "Users can update own shares" ON public.shares
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_shares_job ON public.shares(job_id);
+
+-- Views are counted by the share function, which has no user to act as
+CREATE OR REPLACE FUNCTION public.record_share_view(p_share_id text)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER SET search_path = public
+AS $$
+  UPDATE public.shares
+  SET view_count = view_count + 1, last_viewed_at = now()
+  WHERE id = p_share_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_share_view(text) FROM PUBLIC, anon, authenticated;
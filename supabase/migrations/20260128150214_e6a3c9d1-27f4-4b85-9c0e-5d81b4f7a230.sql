@@ -0,0 +1,5 @@
+-- Style regenerations: a child job remade from its parent's uploads with extra style chips
+ALTER TABLE public.jobs ADD COLUMN IF NOT EXISTS parent_job_id uuid REFERENCES public.jobs ON DELETE SET NULL;
+ALTER TABLE public.jobs ADD COLUMN IF NOT EXISTS style_chips text[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS idx_jobs_parent ON public.jobs(parent_job_id) WHERE parent_job_id IS NOT NULL;
@@ -0,0 +1,42 @@
+-- Versions: every job made from another shares the original's id as root_job_id
+ALTER TABLE public.jobs ADD COLUMN IF NOT EXISTS root_job_id uuid REFERENCES public.jobs ON DELETE SET NULL;
+ALTER TABLE public.jobs ADD COLUMN IF NOT EXISTS version integer NOT NULL DEFAULT 1;
+-- The version shared links play; at most one per lineage
+ALTER TABLE public.jobs ADD COLUMN IF NOT EXISTS is_current boolean NOT NULL DEFAULT false;
+
+-- Restyles made so far are all one level below their original
+UPDATE public.jobs SET root_job_id = parent_job_id WHERE parent_job_id IS NOT NULL AND root_job_id IS NULL;
+
+WITH numbered AS (
+  SELECT id, row_number() OVER (PARTITION BY coalesce(root_job_id, id) ORDER BY created_at) AS version
+  FROM public.jobs
+)
+UPDATE public.jobs SET version = numbered.version
+FROM numbered
+WHERE jobs.id = numbered.id AND jobs.version <> numbered.version;
+
+CREATE INDEX IF NOT EXISTS idx_jobs_root ON public.jobs(root_job_id) WHERE root_job_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_jobs_current_version ON public.jobs((coalesce(root_job_id, id))) WHERE is_current;
+
+-- Swap the current version in one statement pair; runs as the caller, so RLS keeps it to their own jobs
+CREATE OR REPLACE FUNCTION public.promote_job_version(p_job_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_root uuid;
+BEGIN
+  SELECT coalesce(root_job_id, id) INTO v_root
+  FROM public.jobs
+  WHERE id = p_job_id AND user_id = auth.uid() AND status = 'done';
+
+  IF v_root IS NULL THEN
+    RAISE EXCEPTION 'Only a finished video of yours can be made current';
+  END IF;
+
+  UPDATE public.jobs SET is_current = false
+  WHERE is_current AND coalesce(root_job_id, id) = v_root AND id <> p_job_id;
+  UPDATE public.jobs SET is_current = true WHERE id = p_job_id;
+END;
+$$;
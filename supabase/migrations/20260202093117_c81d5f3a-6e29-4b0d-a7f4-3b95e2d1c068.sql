@@ -0,0 +1,2 @@
+-- Hero segments: song windows (in song seconds) the performer lip-syncs, one lip-sync render each
+ALTER TABLE public.jobs ADD COLUMN IF NOT EXISTS hero_segments jsonb;
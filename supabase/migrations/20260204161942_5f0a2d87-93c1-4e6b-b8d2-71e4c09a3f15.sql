@@ -0,0 +1,59 @@
+-- Stripe event ledger: every webhook event by id, so retries and replays are processed once and in order
+CREATE TABLE IF NOT EXISTS public.stripe_events (
+  id text PRIMARY KEY,
+  type text NOT NULL,
+  customer_id text,
+  -- When Stripe created the event; state is only ever applied newest-last
+  stripe_created_at timestamptz NOT NULL,
+  payload jsonb NOT NULL,
+  status text NOT NULL DEFAULT 'received' CHECK (status IN ('received', 'processed', 'skipped', 'failed')),
+  attempts integer NOT NULL DEFAULT 0,
+  error text,
+  received_at timestamptz NOT NULL DEFAULT now(),
+  processed_at timestamptz
+);
+
+-- Only the webhook and the replay command (service role) touch the ledger
+ALTER TABLE public.stripe_events ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_stripe_events_customer ON public.stripe_events(customer_id, stripe_created_at);
+CREATE INDEX IF NOT EXISTS idx_stripe_events_unsettled ON public.stripe_events(stripe_created_at) WHERE status IN ('received', 'failed');
+
+-- Created time of the event the subscription row was last written from
+ALTER TABLE public.subscriptions ADD COLUMN IF NOT EXISTS stripe_event_at timestamptz;
+
+-- Write a subscription (and the plan it grants) unless a newer event already has.
+-- Returns false when the event is stale; equal timestamps re-apply, so replays are harmless.
+CREATE OR REPLACE FUNCTION public.apply_subscription_event(
+  p_user_id uuid,
+  p_status text,
+  p_current_period_end timestamptz,
+  p_price_id text,
+  p_plan text,
+  p_event_at timestamptz
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.subscriptions AS s (user_id, status, current_period_end, price_id, stripe_event_at, updated_at)
+  VALUES (p_user_id, p_status, p_current_period_end, p_price_id, p_event_at, now())
+  ON CONFLICT (user_id) DO UPDATE
+  SET status = excluded.status,
+      current_period_end = excluded.current_period_end,
+      price_id = excluded.price_id,
+      stripe_event_at = excluded.stripe_event_at,
+      updated_at = now()
+  WHERE s.stripe_event_at IS NULL OR s.stripe_event_at <= excluded.stripe_event_at;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  UPDATE public.profiles SET plan = p_plan WHERE id = p_user_id;
+  RETURN true;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.apply_subscription_event(uuid, text, timestamptz, text, text, timestamptz) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,23 @@
+-- Dunning state: a failed renewal opens a grace period before paid features switch off
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS past_due_since timestamptz,
+  ADD COLUMN IF NOT EXISTS grace_period_ends_at timestamptz,
+  -- Set when a trial is about to end with no card on file
+  ADD COLUMN IF NOT EXISTS trial_ends_at timestamptz,
+  -- { amount, currency, refunded_at } of the latest refund, shown on the billing page
+  ADD COLUMN IF NOT EXISTS last_refund jsonb,
+  -- Created time of the Stripe event the fields above were last written from
+  ADD COLUMN IF NOT EXISTS billing_event_at timestamptz;
+
+-- Banners follow billing changes live
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime')
+    AND NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'profiles'
+    ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.profiles;
+  END IF;
+END;
+$$;
@@ -0,0 +1,180 @@
+-- Generation credits: a balance per user and a ledger of every grant, hold and return
+CREATE TABLE IF NOT EXISTS public.credit_balances (
+  user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  balance integer NOT NULL DEFAULT 0 CHECK (balance >= 0),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.credit_ledger (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  job_id uuid REFERENCES public.jobs(id) ON DELETE SET NULL,
+  -- grant: monthly allowance; reserve: held by a job; settle/refund: a hold handed back
+  kind text NOT NULL CHECK (kind IN ('grant', 'reserve', 'settle', 'refund')),
+  amount integer NOT NULL,
+  balance_after integer NOT NULL,
+  -- What a grant was for (a Stripe invoice id, free:<user id>:<month>, or launch:<user id>); each is granted once
+  source text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_credit_ledger_source ON public.credit_ledger(source) WHERE source IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_credit_ledger_user_created ON public.credit_ledger(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_credit_ledger_job ON public.credit_ledger(job_id) WHERE job_id IS NOT NULL;
+
+-- Users read their own credits; only the functions below write them
+ALTER TABLE public.credit_balances ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.credit_ledger ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own credit balance" ON public.credit_balances
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view own credit ledger" ON public.credit_ledger
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Credits reserved when the job was created; a retry after a failure reserves them again
+ALTER TABLE public.jobs ADD COLUMN IF NOT EXISTS credit_estimate integer;
+
+-- Lock the user's balance row, creating it on first use
+CREATE OR REPLACE FUNCTION public.lock_credit_balance(p_user_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_balance integer;
+BEGIN
+  INSERT INTO public.credit_balances (user_id) VALUES (p_user_id) ON CONFLICT (user_id) DO NOTHING;
+  SELECT balance INTO v_balance FROM public.credit_balances WHERE user_id = p_user_id FOR UPDATE;
+  RETURN v_balance;
+END;
+$$;
+
+-- Top the balance up to a plan's monthly allowance; unused credits don't roll over.
+-- Returns the credits added, or null when this source was already granted.
+CREATE OR REPLACE FUNCTION public.grant_credits(p_user_id uuid, p_allowance integer, p_source text)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_balance integer := public.lock_credit_balance(p_user_id);
+  v_amount integer;
+BEGIN
+  IF EXISTS (SELECT 1 FROM public.credit_ledger WHERE source = p_source) THEN
+    RETURN NULL;
+  END IF;
+
+  v_amount := greatest(p_allowance - v_balance, 0);
+  UPDATE public.credit_balances SET balance = v_balance + v_amount, updated_at = now() WHERE user_id = p_user_id;
+  INSERT INTO public.credit_ledger (user_id, kind, amount, balance_after, source)
+  VALUES (p_user_id, 'grant', v_amount, v_balance + v_amount, p_source);
+  RETURN v_amount;
+END;
+$$;
+
+-- Hold credits for a job, on top of anything it already holds. Returns false
+-- (holding nothing new) when the balance can't cover it.
+CREATE OR REPLACE FUNCTION public.reserve_job_credits(p_user_id uuid, p_job_id uuid, p_amount integer)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_balance integer := public.lock_credit_balance(p_user_id);
+  v_held integer;
+  v_needed integer;
+BEGIN
+  SELECT coalesce(-sum(amount), 0) INTO v_held FROM public.credit_ledger WHERE job_id = p_job_id AND kind <> 'grant';
+  v_needed := p_amount - v_held;
+  IF v_needed <= 0 THEN
+    RETURN true;
+  END IF;
+  IF v_balance < v_needed THEN
+    RETURN false;
+  END IF;
+
+  UPDATE public.credit_balances SET balance = v_balance - v_needed, updated_at = now() WHERE user_id = p_user_id;
+  INSERT INTO public.credit_ledger (user_id, job_id, kind, amount, balance_after)
+  VALUES (p_user_id, p_job_id, 'reserve', -v_needed, v_balance - v_needed);
+  RETURN true;
+END;
+$$;
+
+-- Keep p_keep of a job's hold (what it actually cost) and hand the rest back:
+-- a settle on completion, a refund (p_keep = 0) on failure. Returns the credits
+-- handed back; running it again for the same outcome hands back nothing.
+CREATE OR REPLACE FUNCTION public.release_job_credits(p_job_id uuid, p_keep integer)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid;
+  v_balance integer;
+  v_held integer;
+  v_returned integer;
+BEGIN
+  SELECT user_id INTO v_user_id FROM public.credit_ledger WHERE job_id = p_job_id LIMIT 1;
+  IF v_user_id IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  v_balance := public.lock_credit_balance(v_user_id);
+  SELECT coalesce(-sum(amount), 0) INTO v_held FROM public.credit_ledger WHERE job_id = p_job_id AND kind <> 'grant';
+  v_returned := v_held - least(greatest(p_keep, 0), v_held);
+  IF v_returned <= 0 THEN
+    RETURN 0;
+  END IF;
+
+  UPDATE public.credit_balances SET balance = v_balance + v_returned, updated_at = now() WHERE user_id = v_user_id;
+  INSERT INTO public.credit_ledger (user_id, job_id, kind, amount, balance_after)
+  VALUES (v_user_id, p_job_id, CASE WHEN p_keep > 0 THEN 'settle' ELSE 'refund' END, v_returned, v_balance + v_returned);
+  RETURN v_returned;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.lock_credit_balance(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.grant_credits(uuid, integer, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.reserve_job_credits(uuid, uuid, integer) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.release_job_credits(uuid, integer) FROM PUBLIC, anon, authenticated;
+
+-- Deleting a job before it renders hands its hold back; later jobs are already settled or refunded
+CREATE OR REPLACE FUNCTION public.release_deleted_job_credits()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF OLD.status IN ('queued', 'storyboard_ready', 'running') THEN
+    PERFORM public.release_job_credits(OLD.id, 0);
+  END IF;
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS release_deleted_job_credits ON public.jobs;
+CREATE TRIGGER release_deleted_job_credits
+  BEFORE DELETE ON public.jobs
+  FOR EACH ROW EXECUTE FUNCTION public.release_deleted_job_credits();
+
+-- Existing users start on their plan's allowance (mirrors monthly_credits in supabase/functions/_shared/plans.ts)
+SELECT public.grant_credits(
+  id,
+  CASE plan WHEN 'pro' THEN 6000 WHEN 'creator' THEN 1500 ELSE 100 END,
+  'launch:' || id
+)
+FROM public.profiles;
+
+-- The header balance follows changes live
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime')
+    AND NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'credit_balances'
+    ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.credit_balances;
+  END IF;
+END;
+$$;
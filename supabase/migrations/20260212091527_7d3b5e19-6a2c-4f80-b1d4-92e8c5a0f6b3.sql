@@ -0,0 +1,4 @@
+-- Plans and their limits are enforced server-side, so users can no longer write their own plan
+-- or grace period. Profiles are created by handle_new_user and updated by the billing functions.
+DROP POLICY IF EXISTS "Users can update own profile" ON public.profiles;
+DROP POLICY IF EXISTS "Users can insert own profile" ON public.profiles;
@@ -0,0 +1,47 @@
+-- Job status, lineage and billing columns are written by the pipeline, since plan limits count on
+-- them. Users keep the few columns the app writes for them: re-signed output links and the current version.
+DROP POLICY IF EXISTS "Users can insert own jobs" ON public.jobs;
+REVOKE INSERT, UPDATE ON public.jobs FROM anon, authenticated;
+GRANT UPDATE (result_url, outputs, is_current) ON public.jobs TO authenticated;
+
+-- Browser assembly moves its own job between ready_for_assembly, assembling and error, and nothing else.
+-- Returns false when the job isn't the caller's, isn't assembled client-side or isn't at that point.
+CREATE OR REPLACE FUNCTION public.set_client_assembly_status(p_job_id uuid, p_status text)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.jobs
+  SET status = p_status,
+      error = CASE WHEN p_status = 'error' THEN 'Video assembly failed' ELSE error END
+  WHERE id = p_job_id
+    AND user_id = auth.uid()
+    AND assembly_mode = 'client'
+    AND (
+      (status = 'ready_for_assembly' AND p_status = 'assembling')
+      OR (status = 'assembling' AND p_status IN ('ready_for_assembly', 'error'))
+    );
+  RETURN FOUND;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.set_client_assembly_status(uuid, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.set_client_assembly_status(uuid, text) TO authenticated;
+
+-- Every job create-job accepts, kept after the job itself is deleted so hourly and daily limits can't be reset
+CREATE TABLE IF NOT EXISTS public.job_creations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  job_id uuid NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_job_creations_user_created ON public.job_creations(user_id, created_at DESC);
+
+-- Only the service role reads or writes it
+ALTER TABLE public.job_creations ENABLE ROW LEVEL SECURITY;
+
+-- Jobs from the last day already count toward the limits
+INSERT INTO public.job_creations (user_id, job_id, created_at)
+SELECT user_id, id, created_at FROM public.jobs WHERE created_at > now() - interval '1 day';
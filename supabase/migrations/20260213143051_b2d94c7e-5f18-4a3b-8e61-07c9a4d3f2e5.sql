@@ -0,0 +1,10 @@
+-- A delivery claims its event before handling it, so two deliveries of one event can't both apply it
+ALTER TABLE public.stripe_events DROP CONSTRAINT IF EXISTS stripe_events_status_check;
+ALTER TABLE public.stripe_events ADD CONSTRAINT stripe_events_status_check
+  CHECK (status IN ('received', 'processing', 'processed', 'skipped', 'failed'));
+-- When the current claim was taken; a claim whose handler died is taken over once it goes stale
+ALTER TABLE public.stripe_events ADD COLUMN IF NOT EXISTS claimed_at timestamptz;
+
+DROP INDEX IF EXISTS public.idx_stripe_events_unsettled;
+CREATE INDEX IF NOT EXISTS idx_stripe_events_unsettled ON public.stripe_events(stripe_created_at)
+  WHERE status IN ('received', 'processing', 'failed');
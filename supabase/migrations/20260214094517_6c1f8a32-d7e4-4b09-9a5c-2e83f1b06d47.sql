@@ -0,0 +1,23 @@
+-- An upgrade mid-period adds the difference between the two plans' allowances on top of the
+-- balance, instead of topping it up to the new allowance, and only once per billing period
+-- (the source names the subscription and the period's end).
+CREATE OR REPLACE FUNCTION public.add_credits(p_user_id uuid, p_amount integer, p_source text)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_balance integer := public.lock_credit_balance(p_user_id);
+BEGIN
+  IF EXISTS (SELECT 1 FROM public.credit_ledger WHERE source = p_source) THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE public.credit_balances SET balance = v_balance + p_amount, updated_at = now() WHERE user_id = p_user_id;
+  INSERT INTO public.credit_ledger (user_id, kind, amount, balance_after, source)
+  VALUES (p_user_id, 'grant', p_amount, v_balance + p_amount, p_source);
+  RETURN p_amount;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.add_credits(uuid, integer, text) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,3 @@
+-- What the render cost, set when process-job settles the hold; finalize-job settles at it
+-- again in case that failed, which is a no-op once the hold is settled
+ALTER TABLE public.jobs ADD COLUMN IF NOT EXISTS credit_cost integer;
@@ -0,0 +1,5 @@
+-- Jobs the pipeline or the assembly worker is still working on can't be deleted:
+-- their steps, lease and credit hold all point at the row
+DROP POLICY IF EXISTS "Users can delete own jobs" ON public.jobs;
+CREATE POLICY "Users can delete own jobs" ON public.jobs
+  FOR DELETE USING (auth.uid() = user_id AND status NOT IN ('running', 'assembling'));
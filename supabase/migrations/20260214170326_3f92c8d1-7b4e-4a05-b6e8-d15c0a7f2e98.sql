@@ -0,0 +1,39 @@
+-- Count a new job toward the hourly and daily limits and check them in one step, so parallel
+-- create-job calls can't all pass the count before any of them is recorded. Returns null once
+-- the job is recorded, or the limit it ran into (and when a slot opens) without recording it.
+CREATE OR REPLACE FUNCTION public.record_job_creation(p_user_id uuid, p_job_id uuid, p_hourly_max integer, p_daily_max integer)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_opens_at timestamptz;
+BEGIN
+  -- One creation at a time per user
+  PERFORM pg_advisory_xact_lock(hashtextextended('job_creations:' || p_user_id::text, 0));
+
+  -- A slot opens when the oldest job that still counts ages out
+  SELECT created_at + interval '1 hour' INTO v_opens_at
+  FROM public.job_creations
+  WHERE user_id = p_user_id AND created_at >= now() - interval '1 hour'
+  ORDER BY created_at DESC
+  OFFSET greatest(p_hourly_max - 1, 0) LIMIT 1;
+  IF v_opens_at IS NOT NULL THEN
+    RETURN jsonb_build_object('limit', 'hourly', 'max', p_hourly_max, 'opens_at', v_opens_at);
+  END IF;
+
+  SELECT created_at + interval '1 day' INTO v_opens_at
+  FROM public.job_creations
+  WHERE user_id = p_user_id AND created_at >= now() - interval '1 day'
+  ORDER BY created_at DESC
+  OFFSET greatest(p_daily_max - 1, 0) LIMIT 1;
+  IF v_opens_at IS NOT NULL THEN
+    RETURN jsonb_build_object('limit', 'daily', 'max', p_daily_max, 'opens_at', v_opens_at);
+  END IF;
+
+  INSERT INTO public.job_creations (user_id, job_id) VALUES (p_user_id, p_job_id);
+  RETURN NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_job_creation(uuid, uuid, integer, integer) FROM PUBLIC, anon, authenticated;
@@ -3,16 +3,35 @@ import react from "@vitejs/plugin-react-swc";
 import path from "path";
 import { componentTagger } from "lovable-tagger";
 
+// Cross-origin isolation unlocks SharedArrayBuffer for the multithreaded ffmpeg core.
+// `credentialless` still lets the page load Supabase storage URLs without CORP headers.
+// Production hosting sends the same headers from public/_headers; without them the
+// browser assembler falls back to the single-threaded core (see supportsMultiThread).
+const crossOriginIsolation = {
+  "Cross-Origin-Opener-Policy": "same-origin",
+  "Cross-Origin-Embedder-Policy": "credentialless",
+};
+
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
   server: {
     host: "::",
     port: 8080,
+    headers: crossOriginIsolation,
+  },
+  preview: {
+    headers: crossOriginIsolation,
   },
   plugins: [react(), mode === "development" && componentTagger()].filter(Boolean),
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),
+      // The pthread worker isn't in the package's exports map
+      "@ffmpeg/core-mt/dist": path.resolve(__dirname, "./node_modules/@ffmpeg/core-mt/dist"),
     },
   },
+  // Pre-bundling breaks the worker URL @ffmpeg/ffmpeg resolves relative to itself
+  optimizeDeps: {
+    exclude: ["@ffmpeg/ffmpeg"],
+  },
 }));
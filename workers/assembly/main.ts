@@ -0,0 +1,229 @@
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import {
+  CAPTIONS_FILE,
+  assemblyCaptions,
+  assemblyRenders,
+  audioFileName,
+  buildAssemblyArgs,
+  clipFileName,
+} from "@/lib/assembly";
+import { CAPTION_FONT } from "@/lib/captions";
+import type { AssemblyManifest } from "@/types/veosync";
+import { log, withRetry } from "../../supabase/functions/process-job/utils.ts";
+
+/**
+ * Server-side assembly: claims jobs created with assembly_mode 'server' once
+ * process-job marks them ready_for_assembly, renders the AssemblyManifest with
+ * native ffmpeg (same arguments as the in-browser assembler), uploads every
+ * render to its upload_target and hands the signed URLs to finalize-job.
+ */
+
+const REQUIRED_ENV_VARS = ["SUPABASE_URL", "SUPABASE_SERVICE_ROLE_KEY"];
+
+const POLL_INTERVAL_MS = Number(Deno.env.get("ASSEMBLY_POLL_MS") ?? 5000);
+// A render holds the job this long; the lease is renewed while ffmpeg runs
+const LEASE_MS = 10 * 60 * 1000;
+const LEASE_RENEW_MS = 60 * 1000;
+const FFMPEG_PATH = Deno.env.get("FFMPEG_PATH") ?? "ffmpeg";
+const FONTS_DIR = "fonts";
+
+// Signed URL expiry for outputs (mirrors URL_EXPIRY.OUTPUT in src/lib/constants.ts)
+const OUTPUT_URL_EXPIRY = 86400;
+
+interface AssemblyJob {
+  id: string;
+  user_id: string;
+  assembly_manifest: AssemblyManifest;
+}
+
+let stopping = false;
+
+/**
+ * Claim the oldest server-mode job waiting for assembly, or one whose previous
+ * worker let its lease run out mid-render. The conditional update means two
+ * workers never render the same job.
+ */
+async function claimNextJob(client: SupabaseClient): Promise<AssemblyJob | null> {
+  const now = new Date();
+  const { data: candidates, error } = await client
+    .from("jobs")
+    .select("id, status")
+    .eq("assembly_mode", "server")
+    .or(`status.eq.ready_for_assembly,and(status.eq.assembling,locked_until.lt.${now.toISOString()})`)
+    .order("updated_at", { ascending: true })
+    .limit(5);
+
+  if (error) {
+    throw new Error(`Failed to list jobs: ${error.message}`);
+  }
+
+  for (const candidate of candidates ?? []) {
+    const { data: claimed, error: claimError } = await client
+      .from("jobs")
+      .update({ status: "assembling", locked_until: new Date(now.getTime() + LEASE_MS).toISOString() })
+      .eq("id", candidate.id)
+      .eq("status", candidate.status)
+      .or(`locked_until.is.null,locked_until.lt.${now.toISOString()}`)
+      .select("id, user_id, assembly_manifest");
+
+    if (claimError) {
+      throw new Error(`Failed to claim job: ${claimError.message}`);
+    }
+    const job = claimed?.[0];
+    if (job?.assembly_manifest) return job as AssemblyJob;
+  }
+  return null;
+}
+
+async function download(url: string, path: string): Promise<void> {
+  await withRetry(async () => {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch ${new URL(url).pathname}: ${response.status}`);
+    }
+    await Deno.writeFile(path, new Uint8Array(await response.arrayBuffer()));
+  }, { maxRetries: 3, context: "Assembly download" });
+}
+
+// The same file the web app serves, baked into the image (see Dockerfile)
+async function readCaptionFont(): Promise<Uint8Array> {
+  const data = await Deno.readFile(new URL(`../../public${CAPTION_FONT.url}`, import.meta.url));
+  const digest = new Uint8Array(await crypto.subtle.digest("SHA-256", data));
+  if (btoa(String.fromCharCode(...digest)) !== CAPTION_FONT.sha256) {
+    throw new Error(`Caption font failed its integrity check: ${CAPTION_FONT.file}`);
+  }
+  return data;
+}
+
+async function runFfmpeg(args: string[], cwd: string): Promise<void> {
+  const { code, stderr } = await new Deno.Command(FFMPEG_PATH, {
+    args: ["-hide_banner", "-loglevel", "error", ...args],
+    cwd,
+    stdout: "null",
+    stderr: "piped",
+  }).output();
+
+  if (code !== 0) {
+    const output = new TextDecoder().decode(stderr).trim();
+    throw new Error(`ffmpeg exited with ${code}: ${output.slice(-500)}`);
+  }
+}
+
+async function assembleJob(client: SupabaseClient, job: AssemblyJob): Promise<void> {
+  const manifest = job.assembly_manifest;
+  const renders = assemblyRenders(manifest);
+  const workDir = await Deno.makeTempDir({ prefix: `assembly-${job.id}-` });
+
+  // Keep the lease alive for renders that outlast it
+  const renewLease = setInterval(() => {
+    client
+      .from("jobs")
+      .update({ locked_until: new Date(Date.now() + LEASE_MS).toISOString() })
+      .eq("id", job.id)
+      .then(({ error }) => {
+        if (error) log('warn', 'Failed to renew assembly lease', { jobId: job.id, error: error.message });
+      });
+  }, LEASE_RENEW_MS);
+
+  try {
+    for (let i = 0; i < manifest.clips.length; i++) {
+      await download(manifest.clips[i].url, `${workDir}/${clipFileName(manifest.clips[i], i)}`);
+    }
+    await download(manifest.audio_url, `${workDir}/${audioFileName(manifest)}`);
+
+    const hasCaptions = assemblyCaptions(manifest, manifest.target.aspect_ratio) !== null;
+    if (hasCaptions) {
+      await Deno.mkdir(`${workDir}/${FONTS_DIR}`);
+      await Deno.writeFile(`${workDir}/${FONTS_DIR}/${CAPTION_FONT.file}`, await readCaptionFont());
+    }
+
+    // The first render is the job's main ratio; the rest are extra exports
+    const urls: string[] = [];
+    for (let i = 0; i < renders.length; i++) {
+      const { aspect_ratio: aspectRatio, upload_target: { bucket, path } } = renders[i];
+      const outputFile = `output_${i}.mp4`;
+      const startTime = Date.now();
+
+      const captions = hasCaptions ? assemblyCaptions(manifest, aspectRatio) : null;
+      if (captions) {
+        await Deno.writeTextFile(`${workDir}/${CAPTIONS_FILE}`, captions);
+      }
+      await runFfmpeg(buildAssemblyArgs(manifest, aspectRatio, outputFile, captions ? FONTS_DIR : null), workDir);
+      log('info', 'Render complete', { jobId: job.id, aspectRatio, durationMs: Date.now() - startTime });
+
+      const video = await Deno.readFile(`${workDir}/${outputFile}`);
+      const { error: uploadError } = await client.storage
+        .from(bucket)
+        .upload(path, video, { contentType: "video/mp4", upsert: true });
+      if (uploadError) throw uploadError;
+
+      const { data: signed, error: signError } = await client.storage
+        .from(bucket)
+        .createSignedUrl(path, OUTPUT_URL_EXPIRY);
+      if (signError || !signed) throw signError ?? new Error("Failed to sign output URL");
+      urls.push(signed.signedUrl);
+    }
+
+    const outputs = Object.fromEntries(
+      renders.slice(1).map((render, index) => [render.aspect_ratio, urls[index + 1]])
+    );
+    const { error: finalizeError } = await client.functions.invoke("finalize-job", {
+      body: { job_id: job.id, final_video_url: urls[0], outputs },
+    });
+    if (finalizeError) throw finalizeError;
+
+    await client.from("jobs").update({ locked_until: null }).eq("id", job.id);
+  } finally {
+    clearInterval(renewLease);
+    await Deno.remove(workDir, { recursive: true }).catch(() => undefined);
+  }
+}
+
+async function main() {
+  const missing = REQUIRED_ENV_VARS.filter((name) => !Deno.env.get(name));
+  if (missing.length > 0) {
+    throw new Error(`Missing required environment variables: ${missing.join(", ")}`);
+  }
+
+  const client = createClient(
+    Deno.env.get("SUPABASE_URL")!,
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+  );
+
+  // Finish the current render on shutdown instead of abandoning it mid-lease
+  Deno.addSignalListener("SIGTERM", () => {
+    log('info', 'Shutting down after the current job');
+    stopping = true;
+  });
+
+  log('info', 'Assembly worker started', { pollIntervalMs: POLL_INTERVAL_MS });
+
+  while (!stopping) {
+    let job: AssemblyJob | null = null;
+    try {
+      job = await claimNextJob(client);
+    } catch (error) {
+      log('error', 'Failed to claim job', { error: error instanceof Error ? error.message : String(error) });
+    }
+
+    if (!job) {
+      await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+      continue;
+    }
+
+    const startTime = Date.now();
+    log('info', 'Assembling job', { jobId: job.id, clips: job.assembly_manifest.clips.length });
+    try {
+      await assembleJob(client, job);
+      log('info', 'Job assembled', { jobId: job.id, durationMs: Date.now() - startTime });
+    } catch (error) {
+      log('error', 'Assembly failed', { jobId: job.id, error: error instanceof Error ? error.message : String(error) });
+      await client
+        .from("jobs")
+        .update({ status: "error", error: "Video assembly failed", locked_until: null })
+        .eq("id", job.id);
+    }
+  }
+}
+
+await main();